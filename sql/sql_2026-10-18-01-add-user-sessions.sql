@@ -0,0 +1,22 @@
+-- Migration: server-side sessions backing short-lived access tokens + rotating refresh tokens
+-- Run in Supabase SQL editor. Idempotent.
+
+BEGIN;
+
+-- 1) One row per logged-in device. The refresh token is "<id>.<secret>"; only sha256(secret) is stored.
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  refresh_token_hash text NOT NULL,
+  user_agent text,
+  ip text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  last_used_at timestamptz,
+  expires_at timestamptz NOT NULL,
+  revoked_at timestamptz
+);
+
+-- 2) Listing a user's active sessions / revoking them all
+CREATE INDEX IF NOT EXISTS user_sessions_user_id_idx ON user_sessions (user_id) WHERE revoked_at IS NULL;
+
+COMMIT;
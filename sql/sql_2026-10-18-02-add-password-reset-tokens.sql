@@ -0,0 +1,18 @@
+-- Migration: single-use password reset tokens
+-- Run in Supabase SQL editor. Idempotent.
+
+BEGIN;
+
+-- 1) Reset token is "<id>.<secret>"; only sha256(secret) is stored.
+CREATE TABLE IF NOT EXISTS password_reset_tokens (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  used_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS password_reset_tokens_user_id_idx ON password_reset_tokens (user_id) WHERE used_at IS NULL;
+
+COMMIT;
@@ -0,0 +1,31 @@
+-- Migration: TOTP two-factor authentication, recovery codes and per-role 2FA requirement
+-- Run in Supabase SQL editor. Idempotent.
+
+BEGIN;
+
+-- 1) TOTP state on users (secret is set at /auth/2fa/setup, enabled once confirmed)
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS totp_secret text,
+  ADD COLUMN IF NOT EXISTS totp_enabled_at timestamptz,
+  ADD COLUMN IF NOT EXISTS totp_last_step bigint;
+
+-- 2) Recovery codes (sha256 only)
+CREATE TABLE IF NOT EXISTS user_recovery_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  used_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS user_recovery_codes_user_id_idx ON user_recovery_codes (user_id);
+
+-- 3) Roles can require 2FA (enforced by authorizer for JWT requests)
+ALTER TABLE roles
+  ADD COLUMN IF NOT EXISTS requires_2fa boolean NOT NULL DEFAULT false;
+
+-- 4) requires_2fa is opt-in: every role starts at false so existing accounts are not locked out of their
+--    routes before they enroll. Once the members of a role have enrolled (GET /auth/2fa shows it), turn it on:
+--      UPDATE roles SET requires_2fa = true WHERE name IN ('ADMIN', 'PREMIUM');
+
+COMMIT;
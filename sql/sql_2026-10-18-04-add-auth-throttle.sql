@@ -0,0 +1,116 @@
+-- Migration: shared brute-force throttle state (THROTTLE_STORE=postgres)
+-- Run in Supabase SQL editor. Idempotent.
+
+BEGIN;
+
+-- 1) One row per failed attempt, pruned to the sliding window on every write
+CREATE TABLE IF NOT EXISTS auth_throttle_failures (
+  id bigserial PRIMARY KEY,
+  key text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS auth_throttle_failures_key_idx ON auth_throttle_failures (key, created_at);
+
+-- 2) Active lockouts
+CREATE TABLE IF NOT EXISTS auth_throttle_locks (
+  key text PRIMARY KEY,
+  locked_until timestamptz NOT NULL
+);
+
+-- 3) Read the state of a key
+CREATE OR REPLACE FUNCTION auth_throttle_get(p_key text, p_window_ms bigint)
+RETURNS TABLE (failures int, last_failure_at timestamptz, locked_until timestamptz)
+LANGUAGE sql STABLE AS $$
+  SELECT
+    (SELECT count(*)::int FROM auth_throttle_failures f
+      WHERE f.key = p_key AND f.created_at > now() - make_interval(secs => p_window_ms / 1000.0)),
+    (SELECT max(f.created_at) FROM auth_throttle_failures f
+      WHERE f.key = p_key AND f.created_at > now() - make_interval(secs => p_window_ms / 1000.0)),
+    (SELECT l.locked_until FROM auth_throttle_locks l WHERE l.key = p_key AND l.locked_until > now());
+$$;
+
+-- 4) Record a failure; lock the key (and start counting over) once the threshold is reached
+CREATE OR REPLACE FUNCTION auth_throttle_fail(p_key text, p_window_ms bigint, p_threshold int, p_lockout_ms bigint)
+RETURNS TABLE (failures int, last_failure_at timestamptz, locked_until timestamptz)
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_count int;
+BEGIN
+  -- serialize concurrent failures on the same key
+  PERFORM pg_advisory_xact_lock(hashtext(p_key));
+
+  DELETE FROM auth_throttle_failures f
+  WHERE f.key = p_key AND f.created_at <= now() - make_interval(secs => p_window_ms / 1000.0);
+
+  INSERT INTO auth_throttle_failures (key) VALUES (p_key);
+
+  SELECT count(*) INTO v_count FROM auth_throttle_failures f WHERE f.key = p_key;
+
+  IF v_count >= p_threshold THEN
+    INSERT INTO auth_throttle_locks (key, locked_until)
+    VALUES (p_key, now() + make_interval(secs => p_lockout_ms / 1000.0))
+    ON CONFLICT (key) DO UPDATE SET locked_until = EXCLUDED.locked_until;
+
+    DELETE FROM auth_throttle_failures f WHERE f.key = p_key;
+    INSERT INTO auth_throttle_failures (key) VALUES (p_key);
+  END IF;
+
+  RETURN QUERY SELECT * FROM auth_throttle_get(p_key, p_window_ms);
+END;
+$$;
+
+-- 5) Check and record in one step (a burst of parallel attempts cannot all pass the check):
+--    returns the wait in ms (0 = allowed, and the attempt is recorded as a failure)
+CREATE OR REPLACE FUNCTION auth_throttle_claim(
+  p_key text,
+  p_window_ms bigint,
+  p_free_attempts int,
+  p_base_delay_ms bigint,
+  p_max_delay_ms bigint,
+  p_threshold int,
+  p_lockout_ms bigint
+)
+RETURNS bigint
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_state record;
+  v_wait_ms bigint := 0;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(p_key));
+
+  SELECT * INTO v_state FROM auth_throttle_get(p_key, p_window_ms);
+
+  IF v_state.locked_until IS NOT NULL THEN
+    v_wait_ms := ceil(extract(epoch FROM v_state.locked_until - now()) * 1000);
+  ELSIF v_state.failures > p_free_attempts AND v_state.last_failure_at IS NOT NULL THEN
+    v_wait_ms := ceil(extract(epoch FROM v_state.last_failure_at - now()) * 1000
+      + least(p_max_delay_ms, p_base_delay_ms * power(2, v_state.failures - p_free_attempts - 1)));
+  END IF;
+
+  IF v_wait_ms > 0 THEN
+    RETURN v_wait_ms;
+  END IF;
+
+  PERFORM auth_throttle_fail(p_key, p_window_ms, p_threshold, p_lockout_ms);
+  RETURN 0;
+END;
+$$;
+
+-- 6) Give back a claimed attempt that succeeded (most recent failure of the key)
+CREATE OR REPLACE FUNCTION auth_throttle_refund(p_key text)
+RETURNS void
+LANGUAGE sql AS $$
+  DELETE FROM auth_throttle_failures
+  WHERE id = (SELECT max(id) FROM auth_throttle_failures WHERE key = p_key);
+$$;
+
+-- 7) Forget a key (successful login)
+CREATE OR REPLACE FUNCTION auth_throttle_reset(p_key text)
+RETURNS void
+LANGUAGE sql AS $$
+  DELETE FROM auth_throttle_failures WHERE key = p_key;
+  DELETE FROM auth_throttle_locks WHERE key = p_key;
+$$;
+
+COMMIT;
@@ -0,0 +1,25 @@
+-- Migration: email verification for new accounts + per-role restrictions until verified
+-- Run in Supabase SQL editor. Idempotent.
+
+BEGIN;
+
+-- 1) Verification timestamp on users
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS email_verified_at timestamptz;
+
+-- 2) Existing accounts predate verification: treat them as verified (only runs while the column is empty)
+UPDATE users
+SET email_verified_at = created_at
+WHERE email_verified_at IS NULL
+  AND NOT EXISTS (SELECT 1 FROM users WHERE email_verified_at IS NOT NULL);
+
+-- 3) Permissions a role loses until the account email is verified (enforced by authorizer / requirePermission)
+ALTER TABLE roles
+  ADD COLUMN IF NOT EXISTS restricted_until_verified text[] NOT NULL DEFAULT '{}';
+
+-- 4) New USER accounts cannot post products before verifying their email
+UPDATE roles
+SET restricted_until_verified = ARRAY['can_post_products']
+WHERE name = 'USER';
+
+COMMIT;
@@ -0,0 +1,31 @@
+-- Migration: OpenID Connect login (linked identities + pending authorization requests)
+-- Run in Supabase SQL editor. Idempotent.
+
+BEGIN;
+
+-- 1) External identities linked to users (one per provider subject)
+CREATE TABLE IF NOT EXISTS user_identities (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  provider text NOT NULL,
+  subject text NOT NULL,
+  email text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  last_login_at timestamptz,
+  UNIQUE (provider, subject)
+);
+
+CREATE INDEX IF NOT EXISTS user_identities_user_id_idx ON user_identities (user_id);
+
+-- 2) In-flight authorization requests (state -> nonce + PKCE verifier), single use, short-lived
+CREATE TABLE IF NOT EXISTS oidc_auth_requests (
+  state_hash text PRIMARY KEY,
+  provider text NOT NULL,
+  nonce text NOT NULL,
+  code_verifier text NOT NULL,
+  link_user_id uuid REFERENCES users(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL
+);
+
+COMMIT;
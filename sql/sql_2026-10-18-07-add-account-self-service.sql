@@ -0,0 +1,23 @@
+-- Migration: self-service profile update (pending email change) and account deletion
+-- Run in Supabase SQL editor. Idempotent.
+
+BEGIN;
+
+-- 1) New email waiting for confirmation from that address
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS pending_email text;
+
+-- 2) Deleted accounts are anonymized and kept (revoked api_keys still reference them)
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+-- 3) Products of a deleted account stay (Shopify product + sales history) without an owner
+ALTER TABLE products
+  ALTER COLUMN created_by DROP NOT NULL;
+
+-- 4) false for accounts created through OIDC until a password is set via /auth/reset-password;
+--    only those may delete themselves without re-entering a password
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS has_password boolean NOT NULL DEFAULT true;
+
+COMMIT;
@@ -0,0 +1,25 @@
+-- Migration: admin user management (role changes, disabled accounts, forced logout)
+-- Run in Supabase SQL editor. Idempotent.
+
+BEGIN;
+
+-- 1) Disabled accounts are rejected by authorizer and every login method
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS disabled_at timestamptz;
+
+-- 2) Filters / search on the admin user list
+CREATE INDEX IF NOT EXISTS users_created_at_idx ON users (created_at);
+CREATE INDEX IF NOT EXISTS users_role_idx ON users (role);
+
+-- 3) New permission columns
+ALTER TABLE roles
+  ADD COLUMN IF NOT EXISTS can_manage_user_roles boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS can_disable_users boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS can_force_logout_users boolean NOT NULL DEFAULT false;
+
+-- 4) ADMIN gets them
+UPDATE roles
+SET can_manage_user_roles = true, can_disable_users = true, can_force_logout_users = true
+WHERE name = 'ADMIN';
+
+COMMIT;
@@ -0,0 +1,10 @@
+-- Migration: scoped API keys (per-key subset of the owner's role permissions)
+-- Run in Supabase SQL editor. Idempotent.
+
+BEGIN;
+
+-- 1) NULL = unscoped key (full role of the owner, existing keys); otherwise e.g. '{products:read,bestsellers:read}'
+ALTER TABLE api_keys
+  ADD COLUMN IF NOT EXISTS scopes text[];
+
+COMMIT;
@@ -0,0 +1,18 @@
+-- Migration: API key expiry and rotation with a grace period
+-- Run in Supabase SQL editor. Idempotent.
+
+BEGIN;
+
+-- 1) expires_at NULL = never expires (existing keys).
+--    After POST /api/:id/rotate, previous_hashed_key keeps working until previous_key_expires_at.
+ALTER TABLE api_keys
+  ADD COLUMN IF NOT EXISTS expires_at timestamptz,
+  ADD COLUMN IF NOT EXISTS rotated_at timestamptz,
+  ADD COLUMN IF NOT EXISTS previous_hashed_key text,
+  ADD COLUMN IF NOT EXISTS previous_key_expires_at timestamptz;
+
+-- 2) Lookup by the pre-rotation secret
+CREATE INDEX IF NOT EXISTS api_keys_previous_hashed_key_idx ON api_keys (previous_hashed_key)
+  WHERE previous_hashed_key IS NOT NULL;
+
+COMMIT;
@@ -0,0 +1,21 @@
+-- Migration: single API key format "pk_<id>.<token>" with a peppered hash (HMAC-SHA256, API_KEY_SECRET)
+-- Run in Supabase SQL editor. Idempotent.
+
+BEGIN;
+
+-- 1) token_hash = HMAC of the secret (current), previous_token_hash = same for the pre-rotation secret.
+--    hashed_key / previous_hashed_key (bare sha256) only remain on legacy keys not used since the upgrade.
+ALTER TABLE api_keys
+  ADD COLUMN IF NOT EXISTS token_hash text,
+  ADD COLUMN IF NOT EXISTS previous_token_hash text;
+
+ALTER TABLE api_keys
+  ALTER COLUMN hashed_key DROP NOT NULL;
+
+-- 2) Legacy keys are looked up by hash (pk_ keys by id)
+CREATE INDEX IF NOT EXISTS api_keys_token_hash_idx ON api_keys (token_hash) WHERE token_hash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS api_keys_hashed_key_idx ON api_keys (hashed_key) WHERE hashed_key IS NOT NULL;
+CREATE INDEX IF NOT EXISTS api_keys_previous_token_hash_idx ON api_keys (previous_token_hash)
+  WHERE previous_token_hash IS NOT NULL;
+
+COMMIT;
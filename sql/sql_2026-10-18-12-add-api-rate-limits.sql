@@ -0,0 +1,43 @@
+-- Migration: per-API-key rate limits and daily quotas (RATE_LIMIT_STORE=postgres for the shared counters)
+-- Run in Supabase SQL editor. Idempotent.
+
+BEGIN;
+
+-- 1) Limits per key and per role; NULL = not set (the lowest set limit applies, then the env defaults)
+ALTER TABLE api_keys
+  ADD COLUMN IF NOT EXISTS rate_limit_per_minute int CHECK (rate_limit_per_minute > 0),
+  ADD COLUMN IF NOT EXISTS daily_quota int CHECK (daily_quota > 0);
+
+ALTER TABLE roles
+  ADD COLUMN IF NOT EXISTS api_requests_per_minute int CHECK (api_requests_per_minute > 0),
+  ADD COLUMN IF NOT EXISTS api_daily_quota int CHECK (api_daily_quota > 0);
+
+-- 2) Fixed-window counters, one row per key and window
+CREATE TABLE IF NOT EXISTS api_rate_limit_counters (
+  key text NOT NULL,
+  window_start timestamptz NOT NULL,
+  hits int NOT NULL DEFAULT 0,
+  PRIMARY KEY (key, window_start)
+);
+
+-- 3) Count one request in the current window and return the total + when the window ends
+CREATE OR REPLACE FUNCTION api_rate_limit_hit(p_key text, p_window_ms bigint)
+RETURNS TABLE (hits int, reset_at timestamptz)
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_start timestamptz := to_timestamp(floor(extract(epoch FROM now()) * 1000 / p_window_ms) * p_window_ms / 1000.0);
+  v_hits int;
+BEGIN
+  INSERT INTO api_rate_limit_counters AS c (key, window_start, hits)
+  VALUES (p_key, v_start, 1)
+  ON CONFLICT (key, window_start) DO UPDATE SET hits = c.hits + 1
+  RETURNING c.hits INTO v_hits;
+
+  -- previous windows of this key are no longer needed
+  DELETE FROM api_rate_limit_counters c WHERE c.key = p_key AND c.window_start < v_start;
+
+  RETURN QUERY SELECT v_hits, v_start + make_interval(secs => p_window_ms / 1000.0);
+END;
+$$;
+
+COMMIT;
@@ -0,0 +1,38 @@
+-- Migration: API key usage log (batched inserts) + bucketed counts for GET /api/:id/usage
+-- Run in Supabase SQL editor. Idempotent.
+
+BEGIN;
+
+-- 1) One row per API key request; rows older than API_USAGE_RETENTION_DAYS are deleted by the app
+CREATE TABLE IF NOT EXISTS api_key_usage (
+  id bigserial PRIMARY KEY,
+  api_key_id uuid NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  method text NOT NULL,
+  route text NOT NULL,
+  status int NOT NULL,
+  ip text,
+  user_agent text,
+  latency_ms int NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS api_key_usage_key_created_idx ON api_key_usage (api_key_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS api_key_usage_created_idx ON api_key_usage (created_at);
+
+-- 2) Counts per hour / day bucket
+CREATE OR REPLACE FUNCTION api_key_usage_buckets(p_api_key_id uuid, p_from timestamptz, p_to timestamptz, p_bucket text)
+RETURNS TABLE (bucket timestamptz, total int, errors int, avg_latency_ms int)
+LANGUAGE sql STABLE AS $$
+  SELECT
+    date_trunc(p_bucket, u.created_at) AS bucket,
+    count(*)::int,
+    count(*) FILTER (WHERE u.status >= 400)::int,
+    round(avg(u.latency_ms))::int
+  FROM api_key_usage u
+  WHERE u.api_key_id = p_api_key_id AND u.created_at >= p_from AND u.created_at < p_to
+  GROUP BY 1
+  ORDER BY 1;
+$$;
+
+COMMIT;
@@ -0,0 +1,10 @@
+-- Migration: per-API-key IP / CIDR allowlist
+-- Run in Supabase SQL editor. Idempotent.
+
+BEGIN;
+
+-- 1) NULL = usable from any address; otherwise normalized entries such as '{203.0.113.0/24,2001:db8::/32}'
+ALTER TABLE api_keys
+  ADD COLUMN IF NOT EXISTS allowed_ips text[];
+
+COMMIT;
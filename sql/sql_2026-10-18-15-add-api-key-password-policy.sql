@@ -0,0 +1,14 @@
+-- Migration: optional invalidation of API keys by a password change
+-- Run in Supabase SQL editor. Idempotent.
+
+BEGIN;
+
+-- 1) true: keys whose secret was issued before users.password_changed_at are rejected;
+--    NULL = server default (API_KEYS_INVALIDATED_BY_PASSWORD_CHANGE)
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS invalidate_api_keys_on_password_change boolean;
+
+-- 2) POST /api/revoke-all, account deletion
+CREATE INDEX IF NOT EXISTS api_keys_user_id_idx ON api_keys (user_id) WHERE revoked = false;
+
+COMMIT;
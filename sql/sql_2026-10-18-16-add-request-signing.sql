@@ -0,0 +1,39 @@
+-- Migration: HMAC-signed API key requests with nonce replay protection (NONCE_STORE=postgres for the shared nonces)
+-- Run in Supabase SQL editor. Idempotent.
+
+BEGIN;
+
+-- 1) Keys that only accept signed requests
+ALTER TABLE api_keys
+  ADD COLUMN IF NOT EXISTS require_signature boolean NOT NULL DEFAULT false;
+
+-- 2) Nonces seen within the validity window ("<api key id>:<nonce>")
+CREATE TABLE IF NOT EXISTS request_nonces (
+  key text PRIMARY KEY,
+  expires_at timestamptz NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS request_nonces_expires_at_idx ON request_nonces (expires_at);
+
+-- 3) Claim a nonce: true the first time (or once the previous claim expired), false on reuse
+CREATE OR REPLACE FUNCTION request_nonce_claim(p_key text, p_ttl_ms bigint)
+RETURNS boolean
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_claimed text;
+BEGIN
+  -- cheap cleanup of a few expired rows on every claim
+  DELETE FROM request_nonces n
+  WHERE n.key IN (SELECT key FROM request_nonces WHERE expires_at <= now() LIMIT 100);
+
+  INSERT INTO request_nonces AS n (key, expires_at)
+  VALUES (p_key, now() + make_interval(secs => p_ttl_ms / 1000.0))
+  ON CONFLICT (key) DO UPDATE SET expires_at = EXCLUDED.expires_at
+    WHERE n.expires_at <= now()
+  RETURNING n.key INTO v_claimed;
+
+  RETURN v_claimed IS NOT NULL;
+END;
+$$;
+
+COMMIT;
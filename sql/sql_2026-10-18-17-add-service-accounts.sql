@@ -0,0 +1,49 @@
+-- Migration: service accounts (non-login principals owning API keys)
+-- Run in Supabase SQL editor. Idempotent.
+
+BEGIN;
+
+-- 1) Service accounts are users rows with principal_type = 'service': same role / disabled_at / api_keys.user_id /
+--    products.created_by plumbing as humans, but no email and no password (they cannot log in)
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS principal_type text NOT NULL DEFAULT 'user',
+  ADD COLUMN IF NOT EXISTS description text,
+  ADD COLUMN IF NOT EXISTS created_by uuid REFERENCES users(id) ON DELETE SET NULL;
+
+ALTER TABLE users
+  ALTER COLUMN email DROP NOT NULL,
+  ALTER COLUMN password DROP NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'users_principal_type_check') THEN
+    ALTER TABLE users ADD CONSTRAINT users_principal_type_check CHECK (
+      (principal_type = 'user' AND email IS NOT NULL AND password IS NOT NULL)
+      OR (principal_type = 'service' AND email IS NULL AND password IS NULL)
+      -- deleted (anonymized) accounts keep their tombstone values
+      OR deleted_at IS NOT NULL
+    );
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS users_principal_type_idx ON users (principal_type);
+
+-- 2) New permission; ADMIN gets it. A roles column until 19-add-rbac-permissions moves it to role_permissions;
+--    straight into role_permissions when that migration has already run
+DO $$
+BEGIN
+  IF to_regclass('public.role_permissions') IS NULL THEN
+    ALTER TABLE roles
+      ADD COLUMN IF NOT EXISTS can_manage_service_accounts boolean NOT NULL DEFAULT false;
+    UPDATE roles SET can_manage_service_accounts = true WHERE name = 'ADMIN';
+  ELSE
+    INSERT INTO permissions (name, description)
+    VALUES ('can_manage_service_accounts', 'Manage service accounts and their keys')
+    ON CONFLICT (name) DO NOTHING;
+    INSERT INTO role_permissions (role_name, permission)
+    SELECT name, 'can_manage_service_accounts' FROM roles WHERE name = 'ADMIN'
+    ON CONFLICT DO NOTHING;
+  END IF;
+END $$;
+
+COMMIT;
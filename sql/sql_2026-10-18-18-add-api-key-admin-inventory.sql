@@ -0,0 +1,61 @@
+-- Migration: platform-wide API key inventory and audited admin revocation
+-- Run in Supabase SQL editor. Idempotent.
+
+BEGIN;
+
+-- 1) Who revoked a key and why (admin revocations)
+ALTER TABLE api_keys
+  ADD COLUMN IF NOT EXISTS revoked_at timestamptz,
+  ADD COLUMN IF NOT EXISTS revoked_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS revoke_reason text;
+
+-- GET /admin/api-keys embeds the owner through this constraint name (api_keys now has two FKs to users)
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'api_keys_user_id_fkey') THEN
+    ALTER TABLE api_keys ADD CONSTRAINT api_keys_user_id_fkey FOREIGN KEY (user_id) REFERENCES users(id);
+  END IF;
+END $$;
+
+-- 2) Stale key search
+CREATE INDEX IF NOT EXISTS api_keys_last_used_at_idx ON api_keys (last_used_at NULLS FIRST);
+
+-- 3) Audit trail of admin actions on keys (kept when the key row is gone)
+CREATE TABLE IF NOT EXISTS api_key_audit_log (
+  id bigserial PRIMARY KEY,
+  api_key_id uuid NOT NULL,
+  owner_id uuid,
+  action text NOT NULL,
+  actor_id uuid,
+  reason text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS api_key_audit_log_key_idx ON api_key_audit_log (api_key_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS api_key_audit_log_actor_idx ON api_key_audit_log (actor_id, created_at DESC);
+
+-- 4) New permission column; ADMIN gets it
+ALTER TABLE roles
+  ADD COLUMN IF NOT EXISTS can_manage_all_api_keys boolean NOT NULL DEFAULT false;
+
+UPDATE roles SET can_manage_all_api_keys = true WHERE name = 'ADMIN';
+
+-- 5) Admin revocation and its audit entries in one statement (POST /admin/api-keys/revoke):
+--    a key is never revoked without a trace. Keys already revoked or unknown are skipped.
+CREATE OR REPLACE FUNCTION revoke_api_keys_as_admin(p_ids uuid[], p_actor_id uuid, p_reason text)
+RETURNS TABLE (id uuid, user_id uuid, name text)
+LANGUAGE sql
+AS $$
+  WITH revoked AS (
+    UPDATE api_keys
+    SET revoked = true, revoked_at = now(), revoked_by = p_actor_id, revoke_reason = p_reason
+    WHERE api_keys.id = ANY (p_ids) AND api_keys.revoked = false
+    RETURNING api_keys.id, api_keys.user_id, api_keys.name
+  ), audit AS (
+    INSERT INTO api_key_audit_log (api_key_id, owner_id, action, actor_id, reason)
+    SELECT revoked.id, revoked.user_id, 'revoke', p_actor_id, p_reason FROM revoked
+  )
+  SELECT revoked.id, revoked.user_id, revoked.name FROM revoked;
+$$;
+
+COMMIT;
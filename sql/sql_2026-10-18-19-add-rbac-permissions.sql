@@ -0,0 +1,78 @@
+-- Migration: role permissions as data (permissions / role_permissions) instead of roles.can_* columns
+-- Run in Supabase SQL editor. Idempotent.
+
+BEGIN;
+
+-- 1) Permission registry (mirrors PERMISSIONS in src/middleware/permissions.ts)
+CREATE TABLE IF NOT EXISTS permissions (
+  name text PRIMARY KEY,
+  description text
+);
+
+INSERT INTO permissions (name, description) VALUES
+  ('can_post_login', 'Log in with a password / OIDC'),
+  ('can_get_my_user', 'Read own profile (GET /my-user)'),
+  ('can_get_users', 'List and read users (GET /users)'),
+  ('can_post_products', 'Create products'),
+  ('can_post_product_images', 'Attach images to products'),
+  ('can_get_my_bestsellers', 'Read own bestsellers'),
+  ('can_manage_user_roles', 'Change a user''s role (PATCH /users/:id)'),
+  ('can_disable_users', 'Disable / enable users'),
+  ('can_force_logout_users', 'Force logout of a user'),
+  ('can_manage_service_accounts', 'Manage service accounts and their keys'),
+  ('can_manage_all_api_keys', 'Inventory and revoke any API key'),
+  ('can_manage_roles', 'Create roles and assign permissions (/roles)')
+ON CONFLICT (name) DO UPDATE SET description = EXCLUDED.description;
+
+-- 2) Grants
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role_name text NOT NULL REFERENCES roles(name) ON UPDATE CASCADE ON DELETE CASCADE,
+  permission text NOT NULL REFERENCES permissions(name) ON DELETE CASCADE,
+  PRIMARY KEY (role_name, permission)
+);
+
+ALTER TABLE roles ADD COLUMN IF NOT EXISTS description text;
+
+-- 3) Copy the existing boolean columns into role_permissions, then drop them
+DO $$
+DECLARE
+  col text;
+BEGIN
+  FOREACH col IN ARRAY ARRAY[
+    'can_post_login', 'can_get_my_user', 'can_get_users', 'can_post_products', 'can_post_product_images',
+    'can_get_my_bestsellers', 'can_manage_user_roles', 'can_disable_users', 'can_force_logout_users',
+    'can_manage_service_accounts', 'can_manage_all_api_keys'
+  ] LOOP
+    IF EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = 'roles' AND column_name = col
+    ) THEN
+      EXECUTE format(
+        'INSERT INTO role_permissions (role_name, permission) SELECT name, %L FROM roles WHERE %I ON CONFLICT DO NOTHING',
+        col, col
+      );
+      EXECUTE format('ALTER TABLE roles DROP COLUMN %I', col);
+    END IF;
+  END LOOP;
+END $$;
+
+-- 4) New permission; ADMIN gets it
+INSERT INTO role_permissions (role_name, permission)
+SELECT name, 'can_manage_roles' FROM roles WHERE name = 'ADMIN'
+ON CONFLICT DO NOTHING;
+
+-- 5) Replace the permission set of a role in one transaction (PUT /roles/:name/permissions, POST /roles)
+CREATE OR REPLACE FUNCTION set_role_permissions(p_role_name text, p_permissions text[])
+RETURNS void
+LANGUAGE sql
+AS $$
+  DELETE FROM role_permissions
+  WHERE role_name = p_role_name
+    AND permission <> ALL (p_permissions);
+
+  INSERT INTO role_permissions (role_name, permission)
+  SELECT p_role_name, unnest(p_permissions)
+  ON CONFLICT DO NOTHING;
+$$;
+
+COMMIT;
@@ -0,0 +1,21 @@
+-- Migration: product visibility and image uploads driven by permissions instead of role names
+-- Run in Supabase SQL editor. Idempotent.
+
+BEGIN;
+
+-- 1) New permission: list / read every user's products (was hard-coded to the ADMIN role name)
+INSERT INTO permissions (name, description) VALUES
+  ('can_get_all_products', 'List and read every user''s products (GET /products)')
+ON CONFLICT (name) DO UPDATE SET description = EXCLUDED.description;
+
+-- 2) Keep today's behaviour: ADMIN sees every product
+INSERT INTO role_permissions (role_name, permission)
+SELECT name, 'can_get_all_products' FROM roles WHERE name = 'ADMIN'
+ON CONFLICT DO NOTHING;
+
+-- 3) Images now follow can_post_product_images (was hard-coded to the PREMIUM role name)
+INSERT INTO role_permissions (role_name, permission)
+SELECT name, 'can_post_product_images' FROM roles WHERE name IN ('ADMIN', 'PREMIUM')
+ON CONFLICT DO NOTHING;
+
+COMMIT;
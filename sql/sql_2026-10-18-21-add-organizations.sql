@@ -0,0 +1,55 @@
+-- Migration: organizations owning a Shopify shop, per-organization member roles, organization-scoped data
+-- Run in Supabase SQL editor. Idempotent.
+
+BEGIN;
+
+-- 1) Organizations (credentials are AES-256-GCM encrypted by the server, see src/utils/secretBox.ts)
+CREATE TABLE IF NOT EXISTS organizations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  shop_domain text NOT NULL UNIQUE,
+  shopify_token_encrypted text,
+  webhook_secret_encrypted text,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- 2) Members and their role in the organization
+CREATE TABLE IF NOT EXISTS organization_members (
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role text NOT NULL REFERENCES roles(name) ON UPDATE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS organization_members_user_idx ON organization_members (user_id);
+
+-- 3) Organization-scoped products and API keys (null = the store configured in the environment)
+ALTER TABLE products ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id);
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id);
+
+CREATE INDEX IF NOT EXISTS products_organization_idx ON products (organization_id, created_by);
+
+-- 4) Sales webhook of an organization's shop: only its products are counted
+CREATE OR REPLACE FUNCTION increment_organization_product_sales(p_organization_id uuid, items jsonb)
+RETURNS void
+LANGUAGE sql
+AS $$
+  UPDATE products p
+  SET sales_count = COALESCE(p.sales_count, 0) + (i->>'qty')::int
+  FROM jsonb_array_elements(items) AS i
+  WHERE p.organization_id = p_organization_id
+    AND p.shopify_id = i->>'shopify_id';
+$$;
+
+-- 5) New permission; ADMIN gets it
+INSERT INTO permissions (name, description) VALUES
+  ('can_manage_organizations', 'Create organizations, set their Shopify credentials and members')
+ON CONFLICT (name) DO UPDATE SET description = EXCLUDED.description;
+
+INSERT INTO role_permissions (role_name, permission)
+SELECT name, 'can_manage_organizations' FROM roles WHERE name = 'ADMIN'
+ON CONFLICT DO NOTHING;
+
+COMMIT;
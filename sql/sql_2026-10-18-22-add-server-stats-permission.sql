@@ -0,0 +1,15 @@
+-- Migration: permission for server internals (principal cache counters, no longer on the public /health)
+-- Run in Supabase SQL editor. Idempotent.
+
+BEGIN;
+
+-- 1) New permission; ADMIN gets it
+INSERT INTO permissions (name, description) VALUES
+  ('can_view_server_stats', 'Read server internals such as principal cache counters (GET /health/principal-cache)')
+ON CONFLICT (name) DO UPDATE SET description = EXCLUDED.description;
+
+INSERT INTO role_permissions (role_name, permission)
+SELECT name, 'can_view_server_stats' FROM roles WHERE name = 'ADMIN'
+ON CONFLICT DO NOTHING;
+
+COMMIT;
@@ -0,0 +1,69 @@
+import crypto from "crypto";
+
+/**
+ * Signed API key requests (client side). Standalone: copy this file into client projects.
+ *
+ * Every request carries:
+ *   x-api-key             the API key ("pk_<id>.<token>")
+ *   x-signature-timestamp unix time in seconds (must be within the server window, default 5 minutes)
+ *   x-signature-nonce     random, single use within the window
+ *   x-signature           "v1=<hex HMAC-SHA256(signingSecret, canonical request)>"
+ *
+ * Canonical request (lines joined by "\n"):
+ *   METHOD (upper case), path with query string exactly as sent, timestamp, nonce, hex SHA-256 of the raw body
+ * Multipart bodies are not hashed: use UNSIGNED_PAYLOAD as the body hash.
+ *
+ * Usage:
+ *   const headers = signRequest({ apiKey, signingSecret, method: "POST", path: "/products", body: JSON.stringify(product) });
+ *   await fetch(`${baseUrl}/products`, { method: "POST", headers: { ...headers, "Content-Type": "application/json" }, body });
+ */
+export const SIGNATURE_HEADER = "x-signature";
+export const SIGNATURE_TIMESTAMP_HEADER = "x-signature-timestamp";
+export const SIGNATURE_NONCE_HEADER = "x-signature-nonce";
+export const SIGNATURE_VERSION = "v1";
+export const UNSIGNED_PAYLOAD = "UNSIGNED-PAYLOAD";
+
+export type SignRequestInput = {
+  apiKey: string;
+  signingSecret: string;
+  method: string;
+  /** Path + query string, e.g. "/products?page=2" */
+  path: string;
+  /** Raw body as sent (string / bytes), omitted for no body; UNSIGNED_PAYLOAD for multipart */
+  body?: string | Uint8Array | typeof UNSIGNED_PAYLOAD | undefined;
+  /** Overrides for tests */
+  timestamp?: number | undefined;
+  nonce?: string | undefined;
+};
+
+export function hashBody(body: string | Uint8Array | undefined) {
+  if (body === UNSIGNED_PAYLOAD) return UNSIGNED_PAYLOAD;
+  return crypto
+    .createHash("sha256")
+    .update(body ?? "")
+    .digest("hex");
+}
+
+export function canonicalRequest(method: string, path: string, timestamp: string, nonce: string, bodyHash: string) {
+  return [method.toUpperCase(), path, timestamp, nonce, bodyHash].join("\n");
+}
+
+export function computeSignature(signingSecret: string, canonical: string) {
+  return crypto.createHmac("sha256", signingSecret).update(canonical).digest("hex");
+}
+
+/**
+ * Headers to add to the request
+ */
+export function signRequest(input: SignRequestInput): Record<string, string> {
+  const timestamp = String(input.timestamp ?? Math.floor(Date.now() / 1000));
+  const nonce = input.nonce ?? crypto.randomBytes(16).toString("hex");
+  const canonical = canonicalRequest(input.method, input.path, timestamp, nonce, hashBody(input.body));
+
+  return {
+    "x-api-key": input.apiKey,
+    [SIGNATURE_TIMESTAMP_HEADER]: timestamp,
+    [SIGNATURE_NONCE_HEADER]: nonce,
+    [SIGNATURE_HEADER]: `${SIGNATURE_VERSION}=${computeSignature(input.signingSecret, canonical)}`,
+  };
+}
@@ -0,0 +1,115 @@
+import express from "express";
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+
+/**
+ * Local mock OpenID Connect provider, to exercise /auth/oidc/* without a real identity provider.
+ *
+ *   npm run mock-oidc
+ *
+ * and configure the API with:
+ *   OIDC_PROVIDERS=mock
+ *   OIDC_MOCK_ISSUER=http://localhost:4000
+ *   OIDC_MOCK_CLIENT_ID=local-client
+ *   OIDC_MOCK_REDIRECT_URI=http://localhost:3000/auth/oidc/mock/callback
+ *
+ * /authorize approves immediately for MOCK_OIDC_EMAIL (or ?login_hint=<email>), no login page.
+ * The token endpoint enforces PKCE (S256), client_id and redirect_uri like a real provider.
+ */
+const PORT = Number(process.env.MOCK_OIDC_PORT ?? 4000);
+const ISSUER = process.env.MOCK_OIDC_ISSUER ?? `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_OIDC_CLIENT_ID ?? "local-client";
+const DEFAULT_EMAIL = process.env.MOCK_OIDC_EMAIL ?? "seller@example.com";
+const KID = "mock-key-1";
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+type PendingCode = {
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string | undefined;
+  email: string;
+  expiresAt: number;
+};
+const codes = new Map<string, PendingCode>();
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get("/.well-known/openid-configuration", (_req, res) => {
+  res.json({
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    jwks_uri: `${ISSUER}/jwks`,
+    response_types_supported: ["code"],
+    subject_types_supported: ["public"],
+    id_token_signing_alg_values_supported: ["RS256"],
+    code_challenge_methods_supported: ["S256"],
+  });
+});
+
+app.get("/jwks", (_req, res) => {
+  res.json({ keys: [{ ...publicKey.export({ format: "jwk" }), kid: KID, alg: "RS256", use: "sig" }] });
+});
+
+app.get("/authorize", (req, res) => {
+  const q = req.query as Record<string, string | undefined>;
+  if (q.client_id !== CLIENT_ID) return res.status(400).send("unknown client_id");
+  if (q.response_type !== "code" || !q.redirect_uri || !q.state) return res.status(400).send("invalid request");
+  if (q.code_challenge_method !== "S256" || !q.code_challenge) return res.status(400).send("PKCE S256 required");
+
+  const code = crypto.randomBytes(16).toString("hex");
+  codes.set(code, {
+    redirectUri: q.redirect_uri,
+    codeChallenge: q.code_challenge,
+    nonce: q.nonce,
+    email: (q.login_hint ?? DEFAULT_EMAIL).toLowerCase(),
+    expiresAt: Date.now() + 60_000,
+  });
+
+  const redirect = new URL(q.redirect_uri);
+  redirect.searchParams.set("code", code);
+  redirect.searchParams.set("state", q.state);
+  return res.redirect(302, redirect.toString());
+});
+
+app.post("/token", (req, res) => {
+  const { grant_type, code, redirect_uri, client_id, code_verifier } = req.body as Record<string, string | undefined>;
+  const pending = code ? codes.get(code) : undefined;
+  if (code) codes.delete(code);
+
+  if (grant_type !== "authorization_code" || !pending || pending.expiresAt < Date.now()) {
+    return res.status(400).json({ error: "invalid_grant" });
+  }
+  if (client_id !== CLIENT_ID || redirect_uri !== pending.redirectUri) {
+    return res.status(400).json({ error: "invalid_client" });
+  }
+  const challenge = crypto.createHash("sha256").update(code_verifier ?? "").digest("base64url");
+  if (challenge !== pending.codeChallenge) {
+    return res.status(400).json({ error: "invalid_grant", error_description: "PKCE verification failed" });
+  }
+
+  const idToken = jwt.sign(
+    {
+      sub: crypto.createHash("sha256").update(pending.email).digest("hex").slice(0, 24),
+      email: pending.email,
+      email_verified: true,
+      name: pending.email.split("@")[0],
+      ...(pending.nonce ? { nonce: pending.nonce } : {}),
+    },
+    privateKey,
+    { algorithm: "RS256", keyid: KID, issuer: ISSUER, audience: CLIENT_ID, expiresIn: 300 }
+  );
+
+  return res.json({
+    access_token: crypto.randomBytes(16).toString("hex"),
+    token_type: "Bearer",
+    expires_in: 300,
+    id_token: idToken,
+  });
+});
+
+app.listen(PORT, () => {
+  console.log(`Mock OIDC provider listening on ${ISSUER}`);
+});
\ No newline at end of file
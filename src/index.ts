@@ -1,16 +1,32 @@
 import express from "express";
 import dotenv from "dotenv";
+import cookieParser from "cookie-parser";
 import authRoutes from "./routes/auth";
+import twoFactorRoutes from "./routes/twoFactor";
+import oidcRoutes from "./routes/oidc";
 import userRoutes from "./routes/user";
 import productsRoutes from "./routes/products";
 import apiKeysRoutes from "./routes/apiKeys";
+import serviceAccountsRoutes from "./routes/serviceAccounts";
+import adminApiKeysRoutes from "./routes/adminApiKeys";
+import rolesRoutes from "./routes/roles";
+import organizationsRoutes from "./routes/organizations";
+import wellKnownRoutes from "./routes/wellKnown";
 import shopifyWebhookHandler from "./routes/webhooks";
 import { sizeLimiter } from "./middleware/sizeLimiter";
+import { authorizer } from "./middleware/authorizer";
+import { requirePermission } from "./middleware/permissions";
+import { flushApiKeyUsage } from "./utils/apiKeyUsage";
+import { trustProxySetting } from "./utils/ipAllowlist";
+import { principalCacheStats } from "./utils/principalCache";
 
 dotenv.config();
 
 const app = express();
 
+// Client address (req.ip) from X-Forwarded-For only behind the proxies listed in TRUST_PROXY
+app.set("trust proxy", trustProxySetting());
+
 // Mount size limiter early (checks Content-Length if present)
 // Note: keep webhook route mounted before express.json so raw body verification works.
 app.use(sizeLimiter);
@@ -23,18 +39,43 @@ app.post(
 );
 
 // JSON and URL-encoded parsers: limit 1MB
-app.use(express.json({ limit: "1mb" }));
-app.use(express.urlencoded({ extended: true, limit: "1mb" }));
+// The raw bytes are kept for signed API key requests (body hash, see utils/requestSigning.ts)
+const keepRawBody = (req: express.Request, _res: express.Response, buf: Buffer) => {
+  (req as any).rawBody = buf;
+};
+app.use(express.json({ limit: "1mb", verify: keepRawBody }));
+app.use(express.urlencoded({ extended: true, limit: "1mb", verify: keepRawBody }));
+// Session cookies (browser dashboard), read by authorizer and /auth/refresh
+app.use(cookieParser());
 
 app.use("/", userRoutes);
+app.use("/auth/2fa", twoFactorRoutes);
+app.use("/auth/oidc", oidcRoutes);
 app.use("/auth", authRoutes);
 app.use("/products", productsRoutes);
 app.use("/api", apiKeysRoutes);
+app.use("/service-accounts", serviceAccountsRoutes);
+app.use("/admin/api-keys", adminApiKeysRoutes);
+app.use("/roles", rolesRoutes);
+app.use("/organizations", organizationsRoutes);
+app.use("/.well-known", wellKnownRoutes);
 
 // healthcheck
 app.get("/health", (_, res) => res.json({ status: "ok" }));
+// principal cache hit / miss counters (admin only: they reveal traffic patterns)
+app.get("/health/principal-cache", authorizer, requirePermission("can_view_server_stats"), (_, res) =>
+  res.json({ principalCache: principalCacheStats() })
+);
 
 const PORT = process.env.PORT ? Number(process.env.PORT) : 3000;
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`Server listening on http://localhost:${PORT}`);
-});
\ No newline at end of file
+});
+
+// Write buffered API key usage events before exiting
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.once(signal, () => {
+    server.close();
+    void flushApiKeyUsage().finally(() => process.exit(0));
+  });
+}
\ No newline at end of file
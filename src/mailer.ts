@@ -0,0 +1,99 @@
+import dotenv from "dotenv";
+import fs from "fs/promises";
+import path from "path";
+import crypto from "crypto";
+import nodemailer from "nodemailer";
+
+dotenv.config();
+
+const MAIL_FROM = process.env.MAIL_FROM ?? "no-reply@localhost";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+/**
+ * A mail transport only has to know how to deliver one message.
+ * Plug a custom one (SES, Postmark, test double...) with setMailer().
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * SMTP transport (nodemailer). Configured with SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS.
+ */
+export function makeSmtpTransport(): MailTransport {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new Error("SMTP_HOST must be set in environment to use the smtp mail transport");
+  }
+
+  const transporter = nodemailer.createTransport({
+    host,
+    port: process.env.SMTP_PORT ? Number(process.env.SMTP_PORT) : 587,
+    secure: process.env.SMTP_SECURE === "true",
+    ...(process.env.SMTP_USER ? { auth: { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS ?? "" } } : {}),
+  });
+
+  return {
+    async send(message) {
+      await transporter.sendMail({ from: MAIL_FROM, ...message });
+    },
+  };
+}
+
+/**
+ * Local outbox transport: writes every message as a JSON file in MAIL_OUTBOX_DIR (default ./outbox).
+ * Lets the mail flows be exercised without a real mail server.
+ */
+export function makeOutboxTransport(dir: string = process.env.MAIL_OUTBOX_DIR ?? "outbox"): MailTransport {
+  return {
+    async send(message) {
+      await fs.mkdir(dir, { recursive: true });
+      const file = path.join(dir, `${Date.now()}-${crypto.randomBytes(4).toString("hex")}.json`);
+      await fs.writeFile(
+        file,
+        JSON.stringify({ from: MAIL_FROM, ...message, date: new Date().toISOString() }, null, 2)
+      );
+      console.info(`mailer(outbox): wrote message to ${file}`);
+    },
+  };
+}
+
+let mailer: MailTransport | null = null;
+
+/**
+ * Return the configured transport.
+ * MAIL_TRANSPORT = "smtp" | "outbox" (default: smtp when SMTP_HOST is set, outbox otherwise)
+ */
+export function getMailer(): MailTransport {
+  if (mailer) return mailer;
+
+  const transport = process.env.MAIL_TRANSPORT ?? (process.env.SMTP_HOST ? "smtp" : "outbox");
+  switch (transport) {
+    case "smtp":
+      mailer = makeSmtpTransport();
+      break;
+    case "outbox":
+      mailer = makeOutboxTransport();
+      break;
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${transport}" (expected "smtp" or "outbox")`);
+  }
+  return mailer;
+}
+
+/**
+ * Replace the transport used by sendMail (custom providers, tests).
+ */
+export function setMailer(transport: MailTransport) {
+  mailer = transport;
+}
+
+export async function sendMail(message: MailMessage) {
+  return getMailer().send(message);
+}
\ No newline at end of file
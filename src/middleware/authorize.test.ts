@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Request, Response } from "express";
+import { authorize } from "./authorize";
+
+// authorizer pulls in the database client; the policy middleware only needs the session check
+vi.mock("./authorizer", () => ({
+  isUserSession: (req: any) => req.authMethod === "jwt" || req.authMethod === "cookie",
+}));
+
+function mockReq(user: Record<string, unknown> | undefined, authMethod = "jwt") {
+  return { user, authMethod } as unknown as Request;
+}
+
+function mockRes() {
+  const res: any = { statusCode: 200, body: undefined };
+  res.status = vi.fn((code: number) => {
+    res.statusCode = code;
+    return res;
+  });
+  res.json = vi.fn((body: unknown) => {
+    res.body = body;
+    return res;
+  });
+  return res as Response & { statusCode: number; body: any };
+}
+
+async function run(middleware: ReturnType<typeof authorize>, req: Request) {
+  const res = mockRes();
+  const next = vi.fn();
+  await middleware(req, res, next);
+  return { res, next };
+}
+
+const user = (overrides: Record<string, unknown> = {}) => ({ id: "user-1", role: {}, organizationId: null, ...overrides });
+
+describe("authorize", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("401 without an authenticated principal", async () => {
+    const { res, next } = await run(authorize("product:list"), mockReq(undefined));
+    expect(res.statusCode).toBe(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("403 before loading the resource when the principal is denied", async () => {
+    const load = vi.fn();
+    const req = mockReq(user({ apiKeyScopes: ["products:write"] }), "api_key");
+    const { res, next } = await run(authorize("product:read", load), req);
+
+    expect(res.statusCode).toBe(403);
+    expect(res.body).toEqual({ error: "Forbidden: API key is missing scope products:read" });
+    expect(load).not.toHaveBeenCalled();
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("404 when the loader returns null", async () => {
+    const { res, next } = await run(authorize("product:read", async () => null), mockReq(user()));
+    expect(res.statusCode).toBe(404);
+    expect(res.body).toEqual({ error: "Product not found" });
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("404 for another user's resource", async () => {
+    const load = async () => ({ id: "product-1", created_by: "user-2", organization_id: null });
+    const { res, next } = await run(authorize("product:read", load), mockReq(user()));
+    expect(res.statusCode).toBe(404);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("404 for a resource of another organization", async () => {
+    const load = async () => ({ id: "product-1", created_by: "user-1", organization_id: "org-b" });
+    const { res, next } = await run(authorize("product:read", load), mockReq(user({ organizationId: "org-a" })));
+    expect(res.statusCode).toBe(404);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("passes the loaded resource to the handler", async () => {
+    const product = { id: "product-1", created_by: "user-1", organization_id: null };
+    const req = mockReq(user());
+    const { res, next } = await run(authorize("product:read", async () => product), req);
+
+    expect(next).toHaveBeenCalledOnce();
+    expect(res.status).not.toHaveBeenCalled();
+    expect((req as any).resource).toBe(product);
+  });
+
+  it("lets the all-resources permission read other users' resources", async () => {
+    const product = { id: "product-1", created_by: "user-2", organization_id: null };
+    const req = mockReq(user({ role: { can_get_all_products: true } }));
+    const { next } = await run(authorize("product:read", async () => product), req);
+    expect(next).toHaveBeenCalledOnce();
+  });
+
+  it("500 when the loader throws", async () => {
+    const load = async () => {
+      throw new Error("database down");
+    };
+    const { res, next } = await run(authorize("product:read", load), mockReq(user()));
+    expect(res.statusCode).toBe(500);
+    expect(res.body).toEqual({ error: "Internal server error" });
+    expect(next).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,52 @@
+import { Request, Response, NextFunction } from "express";
+import { isUserSession } from "./authorizer";
+import { PolicyAction, Principal, evaluatePolicy } from "../utils/policies";
+
+/**
+ * Policy principal for the authenticated request (after authorizer), null if unauthenticated
+ */
+export function principalOf(req: Request): Principal | null {
+  const user = (req as any).user;
+  if (!user) return null;
+
+  return {
+    id: user.id,
+    role: user.role ?? null,
+    apiKeyScopes: user.apiKeyScopes,
+    unverifiedRestrictions: user.unverifiedRestrictions,
+    userSession: isUserSession(req),
+    organizationId: user.organizationId ?? null,
+  };
+}
+
+/**
+ * Middleware factory: authorize("product:read", loadProduct) -> evaluates the policy (utils/policies.ts)
+ * - principal-level checks first, so denied callers never reach the loader
+ * - load(req) returns the resource or null (404); it is then available to the handler as (req as any).resource
+ */
+export function authorize(action: PolicyAction, load?: (req: Request) => Promise<unknown>) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const principal = principalOf(req);
+    if (!principal) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    try {
+      let decision = evaluatePolicy(action, principal);
+      let resource: unknown;
+      if (decision.allowed && load) {
+        resource = (await load(req)) ?? null;
+        decision = evaluatePolicy(action, principal, resource);
+      }
+
+      if (!decision.allowed) {
+        return res.status(decision.status).json({ error: decision.reason });
+      }
+      if (load) (req as any).resource = resource;
+      return next();
+    } catch (err) {
+      console.error(`authorize(${action}) unexpected:`, err);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+  };
+}
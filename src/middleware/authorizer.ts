@@ -1,18 +1,95 @@
 import { Request, Response, NextFunction } from "express";
-import crypto from "crypto";
 import { verifyJwt } from "../utils/jwt";
 import { supabase } from "../supabase";
+import { getActiveSession } from "../utils/sessions";
+import { clientIp, credentialWaitMs, recordCredentialFailure, sendTooManyAttempts } from "../utils/throttle";
+import { SESSION_COOKIE, checkCsrf } from "../utils/cookies";
+import { scopeRole } from "../utils/apiKeyScopes";
+import { loadRole } from "../utils/roles";
+import { roleCache, userCache } from "../utils/principalCache";
+import { ORGANIZATION_HEADER, getMembership } from "../utils/organizations";
+import { EXPIRY_WARNING_HEADER, expiryWarning } from "../utils/apiKeyLifecycle";
+import { issuedBeforePasswordChange, keysFollowPasswordChange, verifyApiKey } from "../utils/apiKeys";
+import { consumeApiKeyLimits, sendRateLimited } from "../utils/rateLimit";
+import { trackApiKeyUsage } from "../utils/apiKeyUsage";
+import { isIpAllowed } from "../utils/ipAllowlist";
+import { isSignedRequest, verifyRequestSignature } from "../utils/requestSigning";
+
+// Every users column either flow needs (one cache entry per user, see utils/principalCache.ts)
+const PRINCIPAL_USER_COLUMNS =
+  "id, name, email, created_at, role, password_changed_at, totp_enabled_at, email_verified_at, disabled_at, " +
+  "invalidate_api_keys_on_password_change, principal_type";
+
+async function loadPrincipalUser(userId: string) {
+  return userCache.get(userId, async () => {
+    const { data, error } = await supabase.from("users").select(PRINCIPAL_USER_COLUMNS).eq("id", userId).maybeSingle();
+    if (error) throw error;
+    return data;
+  });
+}
+
+async function loadPrincipalRole(roleName: string) {
+  return roleCache.get(roleName, () => loadRole(roleName));
+}
+
+/**
+ * Organization context: the API key's organization, else the X-Organization-Id header.
+ * Returns the member's role in it, null without organization, or the error to send.
+ */
+async function resolveOrganization(
+  req: Request,
+  userId: string,
+  keyOrganizationId: string | null
+): Promise<{ organizationId: string; role: string } | { status: number; error: string } | null> {
+  const requested = (req.headers[ORGANIZATION_HEADER] as string | undefined)?.trim() || null;
+  if (keyOrganizationId && requested && requested !== keyOrganizationId) {
+    return { status: 403, error: "Forbidden: API key belongs to another organization" };
+  }
+
+  const organizationId = keyOrganizationId ?? requested;
+  if (!organizationId) return null;
+
+  const membership = await getMembership(organizationId, userId);
+  if (!membership) return { status: 403, error: "Forbidden: not a member of this organization" };
+  return { organizationId, role: membership.role };
+}
+
+/**
+ * Permissions of the role that stay denied while the user's email is not verified
+ */
+function unverifiedRestrictions(role: any, userRow: any): string[] {
+  if (userRow.email_verified_at || !role) return [];
+  return Array.isArray(role.restricted_until_verified) ? role.restricted_until_verified : [];
+}
 
 /**
  * authorizer:
- * - Support both Authorization: Bearer <jwt> and x-api-key: <raw_key>
- * - Sets (req as any).authMethod = 'jwt' | 'api_key'
+ * - Support Authorization: Bearer <jwt>, x-api-key: <raw_key> and the HttpOnly session cookie (browser)
+ * - Sets (req as any).authMethod = 'jwt' | 'cookie' | 'api_key'
+ *   ('jwt' and 'cookie' are both user sessions, see isUserSession)
+ * - Cookie-authenticated mutating requests must carry the X-CSRF-Token double-submit header
  * - Attaches (req as any).user with normalized fields:
- *    - id, name, email, created_at
- *    - role: object|null (role row with permission booleans)
+ *    - principalType: "user" | "service_account" (service accounts only authenticate with API keys)
+ *    - id, name, email (null for service accounts), created_at
+ *    - role: object|null (role settings + one boolean per registry permission, see utils/roles.ts)
  *    - roleName: normalized string to test identity
+ *    - organizationId: organization context (API key's organization or X-Organization-Id), null = none;
+ *      role / roleName are then the member's organization role (see utils/organizations.ts)
+ *    - sessionId: user_sessions.id the access token belongs to (jwt only)
+ *    - apiKeyId / apiKeyName / apiKeyScopes (api_key only; role is narrowed to the key scopes, null = unscoped)
+ *    - emailVerified / unverifiedRestrictions: permissions denied until the email is verified
+ *
+ * API key requests may be HMAC-signed (x-signature, see src/client/signRequest.ts): required for keys with
+ * require_signature, verified with nonce replay protection whenever present.
+ * API key requests count against the key's rate limit / daily quota (X-RateLimit-* headers, 429).
  *
- * Additional: invalidates JWTs issued before users.password_changed_at
+ * Users, roles and API key rows come from the principal cache (short TTL, invalidated on change, see utils/principalCache.ts).
+ *
+ * Additional: rejects disabled accounts (users.disabled_at) for every method,
+ * invalidates JWTs issued before users.password_changed_at (API keys too when the user / server opts in)
+ * and access tokens whose session was revoked (logout / logout-all).
+ * JWT requests from a role with requires_2fa are rejected until the user enrolls 2FA
+ * (except on routes marked with allowTwoFactorEnrollment).
  */
 export async function authorizer(req: Request, res: Response, next: NextFunction) {
   try {
@@ -24,9 +101,14 @@ export async function authorizer(req: Request, res: Response, next: NextFunction
       return String(name).trim();
     };
 
-    // JWT flow
-    if (authHeader && authHeader.startsWith("Bearer ")) {
-      const token = authHeader.slice("Bearer ".length).trim();
+    // An explicit credential (Bearer / x-api-key) wins over the browser session cookie
+    const bearerToken = authHeader && authHeader.startsWith("Bearer ") ? authHeader.slice("Bearer ".length).trim() : null;
+    const cookieToken = !bearerToken && !apiKeyHeader ? (req.cookies?.[SESSION_COOKIE] as string | undefined) : undefined;
+
+    // JWT flow (Bearer header or session cookie)
+    if (bearerToken || cookieToken) {
+      const token = (bearerToken || cookieToken)!;
+      const viaCookie = !bearerToken;
       let payload: any;
       try {
         payload = verifyJwt(token);
@@ -35,20 +117,36 @@ export async function authorizer(req: Request, res: Response, next: NextFunction
       }
 
       const userId = payload?.userId;
+      const sessionId = payload?.sid;
       const tokenIat = typeof payload?.iat === "number" ? payload.iat : undefined; // seconds since epoch
-      if (!userId) return res.status(401).json({ error: "Invalid token payload" });
+      if (!userId || !sessionId || payload?.typ !== "access") {
+        return res.status(401).json({ error: "Invalid token payload" });
+      }
 
-      const { data: userRow, error: userError } = await supabase
-        .from("users")
-        .select("id, name, email, created_at, password_changed_at, role")
-        .eq("id", userId)
-        .single();
+      // Access tokens are only valid while their session is alive
+      const session = await getActiveSession(sessionId);
+      if (!session || session.user_id !== userId) {
+        return res.status(401).json({ error: "Session revoked or expired" });
+      }
+
+      if (viaCookie && !checkCsrf(req, sessionId)) {
+        return res.status(403).json({ error: "Invalid or missing CSRF token" });
+      }
 
-      if (userError || !userRow) {
+      let userRow: any = null;
+      try {
+        userRow = await loadPrincipalUser(userId);
+      } catch (userError) {
         console.error("authorizer: fetch user error:", userError);
+      }
+      if (!userRow) {
         return res.status(401).json({ error: "Invalid token user" });
       }
 
+      if (userRow.disabled_at) {
+        return res.status(403).json({ error: "Forbidden: account disabled" });
+      }
+
       // If the user has a password_changed_at, invalidate tokens issued before that time
       if (userRow.password_changed_at && tokenIat) {
         const pwdChangedAtSec = Math.floor(new Date(userRow.password_changed_at).getTime() / 1000);
@@ -58,128 +156,184 @@ export async function authorizer(req: Request, res: Response, next: NextFunction
         }
       }
 
-      // Load role row (permissions)
+      // In an organization the member's organization role replaces the global role
+      const organization = await resolveOrganization(req, userRow.id, null);
+      if (organization && "error" in organization) {
+        return res.status(organization.status).json({ error: organization.error });
+      }
+      const roleName: string | null = organization ? organization.role : userRow.role;
+
+      // Load role (settings + permissions from role_permissions)
       let roleObj: any = null;
       let roleNameNormalized: string | null = null;
-      if (userRow.role) {
-        const { data: roleData, error: roleError } = await supabase
-          .from("roles")
-          .select(
-            "name, can_post_login, can_get_my_user, can_get_users, can_post_products, can_post_product_images, can_get_my_bestsellers"
-          )
-          .eq("name", userRow.role)
-          .single();
-
-        if (roleError) {
+      if (roleName) {
+        try {
+          roleObj = await loadPrincipalRole(roleName);
+          if (roleObj) roleNameNormalized = normalizeRoleName(roleObj.name);
+        } catch (roleError) {
           console.error("authorizer: fetch role error:", roleError);
-        } else if (roleData) {
-          roleObj = roleData;
-          roleNameNormalized = normalizeRoleName(roleData.name);
         }
       }
 
-      if (!roleNameNormalized && userRow.role) {
-        roleNameNormalized = normalizeRoleName(userRow.role);
+      if (!roleNameNormalized && roleName) {
+        roleNameNormalized = normalizeRoleName(roleName);
+      }
+
+      // Role requires 2FA but the user has not enrolled yet: only the enrollment routes are reachable
+      if (roleObj?.requires_2fa && !userRow.totp_enabled_at && !(req as any).allowTwoFactorEnrollment) {
+        return res.status(403).json({ error: "Forbidden: two-factor authentication required for this role" });
       }
 
-      (req as any).authMethod = "jwt";
+      (req as any).authMethod = viaCookie ? "cookie" : "jwt";
       (req as any).user = {
+        principalType: "user",
         id: userRow.id,
         name: userRow.name,
         email: userRow.email,
         created_at: userRow.created_at,
         role: roleObj,
         roleName: roleNameNormalized,
+        organizationId: organization?.organizationId ?? null,
+        sessionId,
+        twoFactorEnabled: Boolean(userRow.totp_enabled_at),
+        emailVerified: Boolean(userRow.email_verified_at),
+        unverifiedRestrictions: unverifiedRestrictions(roleObj, userRow),
       };
 
-      console.debug("authorizer(jwt) attached user:", { id: userRow.id, roleName: roleNameNormalized });
+      console.debug(`authorizer(${viaCookie ? "cookie" : "jwt"}) attached user:`, { id: userRow.id, roleName: roleNameNormalized });
 
       return next();
     }
 
-    // API key flow — unchanged (API keys are not invalidated by password changes)
+    // API key flow
     if (apiKeyHeader) {
       const rawKey = apiKeyHeader.trim();
       if (!rawKey) return res.status(401).json({ error: "Invalid API key" });
 
-      const hashed = crypto.createHash("sha256").update(rawKey).digest("hex");
+      // Key guessing is throttled per client IP (no account key: the owner is unknown until the key matches)
+      const ip = clientIp(req);
+      const waitMs = await credentialWaitMs(null, ip);
+      if (waitMs > 0) return sendTooManyAttempts(res, waitMs);
 
-      const { data: keyRow, error: keyErr } = await supabase
-        .from("api_keys")
-        .select("id, user_id, name, revoked")
-        .eq("hashed_key", hashed)
-        .limit(1)
-        .single();
+      const verified = await verifyApiKey(rawKey);
+      if (!verified) {
+        await recordCredentialFailure(null, ip);
+        return res.status(401).json({ error: "Invalid API key" });
+      }
+      if ("error" in verified) return res.status(verified.status).json({ error: verified.error });
 
-      if (keyErr || !keyRow) return res.status(401).json({ error: "Invalid API key" });
-      if (keyRow.revoked) return res.status(403).json({ error: "API key revoked" });
+      const { key: keyRow, usedPreviousSecret } = verified;
+      const warning = expiryWarning(keyRow, usedPreviousSecret);
+      if (warning) res.setHeader(EXPIRY_WARNING_HEADER, warning);
 
-      // update last_used_at in background
-      void (async () => {
-        try {
-          await supabase.from("api_keys").update({ last_used_at: new Date().toISOString() }).eq("id", keyRow.id);
-        } catch (e) {
-          console.error("authorizer: failed to update api_keys.last_used_at", e);
-        }
-      })();
+      // Usage log (batched; also maintains last_used_at)
+      trackApiKeyUsage(req, res, keyRow);
 
-      const { data: userRow, error: userError } = await supabase
-        .from("users")
-        .select("id, name, email, created_at, role, password_changed_at")
-        .eq("id", keyRow.user_id)
-        .single();
+      // Key restricted to some source addresses (req.ip: honours TRUST_PROXY)
+      if (!isIpAllowed(ip, keyRow.allowed_ips)) {
+        return res.status(403).json({ error: "Forbidden: API key not allowed from this IP address" });
+      }
 
-      if (userError || !userRow) {
+      // Signed-request mode: mandatory for keys with require_signature, checked whenever a signature is sent
+      if (keyRow.require_signature || isSignedRequest(req)) {
+        const tokenHash = usedPreviousSecret ? keyRow.previous_token_hash : keyRow.token_hash;
+        const signatureError = await verifyRequestSignature(req, keyRow, tokenHash);
+        if (signatureError) return res.status(401).json({ error: signatureError });
+      }
+
+      let userRow: any = null;
+      try {
+        userRow = await loadPrincipalUser(keyRow.user_id);
+      } catch (userError) {
         console.error("authorizer (api key): fetch user error:", userError);
+      }
+      if (!userRow) {
         return res.status(401).json({ error: "Invalid API key user" });
       }
 
-      // Note: We do NOT invalidate api keys on password change. If you want that behavior, add logic here.
+      if (userRow.disabled_at) {
+        return res.status(403).json({ error: "Forbidden: account disabled" });
+      }
+
+      // Optional policy (per user or global): keys issued before the last password change stop working
+      if (keysFollowPasswordChange(userRow) && issuedBeforePasswordChange(keyRow, userRow.password_changed_at)) {
+        return res.status(401).json({ error: "API key invalidated by password change" });
+      }
+
+      // Keys bound to an organization act with the owner's role in it
+      const organization = await resolveOrganization(req, userRow.id, keyRow.organization_id ?? null);
+      if (organization && "error" in organization) {
+        return res.status(organization.status).json({ error: organization.error });
+      }
+      const roleName: string | null = organization ? organization.role : userRow.role;
 
       let roleObj: any = null;
       let roleNameNormalized: string | null = null;
-      if (userRow.role) {
-        const { data: roleData, error: roleError } = await supabase
-          .from("roles")
-          .select(
-            "name, can_post_login, can_get_my_user, can_get_users, can_post_products, can_post_product_images, can_get_my_bestsellers"
-          )
-          .eq("name", userRow.role)
-          .single();
-
-        if (roleError) {
+      if (roleName) {
+        try {
+          roleObj = await loadPrincipalRole(roleName);
+          if (roleObj) roleNameNormalized = normalizeRoleName(roleObj.name);
+        } catch (roleError) {
           console.error("authorizer (api key): fetch role error:", roleError);
-        } else if (roleData) {
-          roleObj = roleData;
-          roleNameNormalized = normalizeRoleName(roleData.name);
         }
       }
 
-      if (!roleNameNormalized && userRow.role) {
-        roleNameNormalized = normalizeRoleName(userRow.role);
+      if (!roleNameNormalized && roleName) {
+        roleNameNormalized = normalizeRoleName(roleName);
       }
 
+      // A scoped key only keeps the role permissions its scopes cover
+      const apiKeyScopes: string[] | null = Array.isArray(keyRow.scopes) ? keyRow.scopes : null;
+      roleObj = scopeRole(roleObj, apiKeyScopes);
+
+      // Per-key rate limit and daily quota (key settings, then the owner's role, then defaults)
+      const limitWaitMs = await consumeApiKeyLimits(res, keyRow, roleObj);
+      if (limitWaitMs > 0) return sendRateLimited(res, limitWaitMs);
+
       (req as any).authMethod = "api_key";
       (req as any).user = {
+        principalType: userRow.principal_type === "service" ? "service_account" : "user",
         id: userRow.id,
         name: userRow.name,
         email: userRow.email,
         created_at: userRow.created_at,
         role: roleObj,
         roleName: roleNameNormalized,
+        organizationId: organization?.organizationId ?? null,
         apiKeyName: keyRow.name,
         apiKeyId: keyRow.id,
+        apiKeyScopes,
+        emailVerified: Boolean(userRow.email_verified_at),
+        unverifiedRestrictions: unverifiedRestrictions(roleObj, userRow),
       };
 
-      console.debug("authorizer(api_key) attached user:", { id: userRow.id, roleName: roleNameNormalized, apiKeyId: keyRow.id });
+      console.debug("authorizer(api_key) attached user:", { id: userRow.id, principalType: userRow.principal_type, roleName: roleNameNormalized, apiKeyId: keyRow.id });
 
       return next();
     }
 
     // No auth
-    return res.status(401).json({ error: "Missing Authorization or x-api-key header" });
+    return res.status(401).json({ error: "Missing Authorization, x-api-key header or session cookie" });
   } catch (err) {
     console.error("authorizer unexpected error:", err);
     return res.status(500).json({ error: "Internal server error" });
   }
+}
+
+/**
+ * Mark a route as reachable by users whose role requires 2FA but who have not enrolled yet.
+ * Must be mounted before authorizer.
+ */
+export function allowTwoFactorEnrollment(req: Request, _res: Response, next: NextFunction) {
+  (req as any).allowTwoFactorEnrollment = true;
+  return next();
+}
+
+/**
+ * True when the request is authenticated as a logged-in user (Bearer JWT or session cookie),
+ * as opposed to an API key. Account / key management routes require it.
+ */
+export function isUserSession(req: Request) {
+  const authMethod = (req as any).authMethod;
+  return authMethod === "jwt" || authMethod === "cookie";
 }
\ No newline at end of file
@@ -1,18 +1,39 @@
 import { Request, Response, NextFunction } from "express";
+import type { ApiKeyScope } from "../utils/apiKeyScopes";
+
+/**
+ * Registre des permissions (source de vérité côté code).
+ * Stored in the permissions table and granted to roles through role_permissions (see utils/roles.ts);
+ * a new capability = a new entry here + a migration inserting it into permissions.
+ */
+export const PERMISSIONS = {
+    can_post_login: "Log in with a password / OIDC",
+    can_get_my_user: "Read own profile (GET /my-user)",
+    can_get_users: "List and read users (GET /users)",
+    can_post_products: "Create products",
+    can_post_product_images: "Attach images to products",
+    can_get_all_products: "List and read every user's products (GET /products)",
+    can_get_my_bestsellers: "Read own bestsellers",
+    can_manage_user_roles: "Change a user's role (PATCH /users/:id)",
+    can_disable_users: "Disable / enable users",
+    can_force_logout_users: "Force logout of a user",
+    can_manage_service_accounts: "Manage service accounts and their keys",
+    can_manage_all_api_keys: "Inventory and revoke any API key",
+    can_manage_roles: "Create roles and assign permissions (/roles)",
+    can_manage_organizations: "Create organizations, set their Shopify credentials and members",
+    can_view_server_stats: "Read server internals such as principal cache counters (GET /health/principal-cache)",
+} as const;
 
 /**
  * Permissions disponibles sur le rôle (nommage conforme à la BD)
  */
-type PermissionKey =
-    | "can_post_login"
-    | "can_get_my_user"
-    | "can_get_users"
-    | "can_post_products"
-    | "can_post_product_images"   // nouvelle permission
-    | "can_get_my_bestsellers";   // nouvelle permission
+export type PermissionKey = keyof typeof PERMISSIONS;
+
+export const PERMISSION_KEYS = Object.keys(PERMISSIONS) as [PermissionKey, ...PermissionKey[]];
 
 /**
  * Middleware factory: requirePermission('can_post_products') -> vérifie req.user.role.can_post_products === true
+ * (role objects carry one boolean per registry entry, built from role_permissions by loadRole)
  */
 export function requirePermission(permission: PermissionKey) {
     return (req: Request, res: Response, next: NextFunction) => {
@@ -31,6 +52,31 @@ export function requirePermission(permission: PermissionKey) {
             return res.status(403).json({ error: "Forbidden: insufficient permissions" });
         }
 
+        // Role grants it, but not before the account email is verified (see authorizer)
+        if (Array.isArray(user.unverifiedRestrictions) && user.unverifiedRestrictions.includes(permission)) {
+            return res.status(403).json({ error: "Forbidden: email address not verified" });
+        }
+
+        return next();
+    };
+}
+
+/**
+ * Middleware factory: requireScope('products:read') -> a scoped API key must include the scope.
+ * User sessions and unscoped (legacy) keys pass; scopes that map to role permissions
+ * are already enforced by requirePermission.
+ */
+export function requireScope(scope: ApiKeyScope) {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const user = (req as any).user;
+        if (!user) {
+            return res.status(401).json({ error: "Unauthorized" });
+        }
+
+        if (Array.isArray(user.apiKeyScopes) && !user.apiKeyScopes.includes(scope)) {
+            return res.status(403).json({ error: `Forbidden: API key is missing scope ${scope}` });
+        }
+
         return next();
     };
-}
\ No newline at end of file
+}
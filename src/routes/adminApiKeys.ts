@@ -0,0 +1,140 @@
+import { Router } from "express";
+import { authorizer, isUserSession } from "../middleware/authorizer";
+import { requirePermission } from "../middleware/permissions";
+import { validateBody } from "../middleware/validate";
+import { supabase } from "../supabase";
+import {
+  listAllApiKeysQuerySchema,
+  bulkRevokeApiKeysSchema,
+  apiKeyAuditQuerySchema,
+  ListAllApiKeysQuery,
+  BulkRevokeApiKeysBody,
+  ApiKeyAuditQuery,
+} from "../zod-schemas/adminApiKey";
+import { revokeApiKeysAsAdmin } from "../utils/apiKeys";
+
+/**
+ * Platform-wide API key inventory (security review of stale / abandoned keys)
+ *
+ * Every route: admin user session + can_manage_all_api_keys.
+ */
+const router = Router();
+
+const INVENTORY_COLUMNS =
+  "id, name, scopes, revoked, revoked_at, revoked_by, revoke_reason, expires_at, last_used_at, created_at, " +
+  "owner:users!api_keys_user_id_fkey(id, name, email, principal_type, disabled_at)";
+
+router.use(authorizer, requirePermission("can_manage_all_api_keys"), (req, res, next) => {
+  if (!isUserSession(req)) {
+    return res.status(403).json({ error: "Must be authenticated via user session to manage API keys" });
+  }
+  return next();
+});
+
+/**
+ * GET /admin/api-keys
+ * - ?page=1&pageSize=50&unused_days=90&revoked=false&owner_id=
+ * - unused_days: created more than N days ago and not used in the last N days (or never)
+ */
+router.get("/", validateBody(listAllApiKeysQuerySchema), async (req, res) => {
+  const q = req.body as ListAllApiKeysQuery;
+
+  try {
+    let query = supabase.from("api_keys").select(INVENTORY_COLUMNS, { count: "exact" });
+
+    if (q.unused_days) {
+      const cutoff = new Date(Date.now() - q.unused_days * 24 * 60 * 60 * 1000).toISOString();
+      query = query.lt("created_at", cutoff).or(`last_used_at.is.null,last_used_at.lt.${cutoff}`);
+    }
+    if (q.revoked) query = query.eq("revoked", q.revoked === "true");
+    if (q.owner_id) query = query.eq("user_id", q.owner_id);
+
+    const from = (q.page - 1) * q.pageSize;
+    const { data, error, count } = await query
+      .order("last_used_at", { ascending: true, nullsFirst: true })
+      .order("created_at", { ascending: true })
+      .range(from, from + q.pageSize - 1);
+
+    if (error) {
+      console.error("GET /admin/api-keys supabase error:", error);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+    return res.json({
+      apiKeys: data ?? [],
+      pagination: {
+        page: q.page,
+        pageSize: q.pageSize,
+        total: count ?? 0,
+        totalPages: Math.ceil((count ?? 0) / q.pageSize),
+      },
+    });
+  } catch (err) {
+    console.error("GET /admin/api-keys unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * POST /admin/api-keys/revoke
+ * - { ids: [...], reason }: revoke any keys; each revocation is recorded with the admin and the reason
+ * - keys already revoked or unknown are reported in skipped
+ */
+router.post("/revoke", validateBody(bulkRevokeApiKeysSchema), async (req, res) => {
+  const admin = (req as any).user;
+  const { ids, reason } = req.body as BulkRevokeApiKeysBody;
+
+  try {
+    const uniqueIds = [...new Set(ids)];
+    const revoked = await revokeApiKeysAsAdmin(uniqueIds, admin.id, reason);
+    const revokedIds = new Set(revoked.map((key) => key.id));
+
+    return res.json({
+      revoked: revoked.map((key) => key.id),
+      skipped: uniqueIds.filter((id) => !revokedIds.has(id)),
+    });
+  } catch (err) {
+    console.error("POST /admin/api-keys/revoke unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * GET /admin/api-keys/audit
+ * - ?api_key_id=&actor_id=&page=&pageSize=; newest first
+ */
+router.get("/audit", validateBody(apiKeyAuditQuerySchema), async (req, res) => {
+  const q = req.body as ApiKeyAuditQuery;
+
+  try {
+    let query = supabase
+      .from("api_key_audit_log")
+      .select("id, api_key_id, owner_id, action, actor_id, reason, created_at", { count: "exact" });
+
+    if (q.api_key_id) query = query.eq("api_key_id", q.api_key_id);
+    if (q.actor_id) query = query.eq("actor_id", q.actor_id);
+
+    const from = (q.page - 1) * q.pageSize;
+    const { data, error, count } = await query
+      .order("created_at", { ascending: false })
+      .range(from, from + q.pageSize - 1);
+
+    if (error) {
+      console.error("GET /admin/api-keys/audit supabase error:", error);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+    return res.json({
+      entries: data ?? [],
+      pagination: {
+        page: q.page,
+        pageSize: q.pageSize,
+        total: count ?? 0,
+        totalPages: Math.ceil((count ?? 0) / q.pageSize),
+      },
+    });
+  } catch (err) {
+    console.error("GET /admin/api-keys/audit unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
@@ -1,36 +1,66 @@
-import { Router } from "express";
-import crypto from "crypto";
+import { Router, Request } from "express";
 import { supabase } from "../supabase";
 import { validateBody } from "../middleware/validate";
-import { createApiKeySchema } from "../zod-schemas/apiKey";
+import {
+  createApiKeySchema,
+  CreateApiKeyBody,
+  rotateApiKeySchema,
+  RotateApiKeyBody,
+  updateApiKeySchema,
+  UpdateApiKeyBody,
+  apiKeyUsageQuerySchema,
+  ApiKeyUsageQuery,
+} from "../zod-schemas/apiKey";
+import { API_KEY_ROTATION_GRACE_SECONDS, isExpiringSoon, isPast } from "../utils/apiKeyLifecycle";
+import {
+  API_KEY_COLUMNS,
+  createApiKeyForUser,
+  listApiKeysForUser,
+  revokeAllApiKeys,
+  rotateApiKey,
+} from "../utils/apiKeys";
+import { getApiKeyUsage } from "../utils/apiKeyUsage";
+import { invalidateApiKeys } from "../utils/principalCache";
 import { authorizer } from "../middleware/authorizer";
+import { authorize } from "../middleware/authorize";
 
 const router = Router();
 
 /**
- * Helper: hash a raw key with SHA-256 and return hex digest
+ * Resource loader for authorize(): key by :id, null if unknown (ownership is checked by the api_key:update policy)
  */
-function hashKey(raw: string) {
-  return crypto.createHash("sha256").update(raw).digest("hex");
+async function loadApiKey(req: Request) {
+  const { data, error } = await supabase
+    .from("api_keys")
+    .select(`${API_KEY_COLUMNS}, user_id, token_hash, hashed_key`)
+    .eq("id", req.params.id)
+    .maybeSingle();
+  // invalid_text_representation: malformed id
+  if (error && error.code === "22P02") return null;
+  if (error) throw error;
+  return data;
 }
 
+// Per-key routes: user session + key owned by the caller in the request's organization context (404 otherwise)
+const authorizeOwnKey = authorize("api_key:update", loadApiKey);
+
 /**
  * POST /api-keys
  * - Create a new API key for the authenticated user
- * - Only allowed when authenticated via JWT (UI)
- * - Returns the raw key only once.
+ * - Only allowed when authenticated as a user (JWT or session cookie, i.e. UI)
+ * - Optional scopes (e.g. ["products:read", "bestsellers:read"]) narrow the owner's role for this key
+ * - Optional expires_at (ISO date in the future); the key is rejected by authorizer afterwards
+ * - Optional rate_limit_per_minute / daily_quota, applied on top of the role limits
+ * - Optional allowed_ips (IPs / CIDR ranges); calls from other addresses are rejected
+ * - Optional require_signature: only HMAC-signed requests are accepted (src/client/signRequest.ts)
+ * - Created with X-Organization-Id: the key is bound to that organization (acts with the caller's role in it)
+ * - Returns the raw key and its request signing secret only once.
  */
-router.post("/", authorizer, validateBody(createApiKeySchema), async (req, res) => {
+router.post("/", authorizer, authorize("api_key:manage"), validateBody(createApiKeySchema), async (req, res) => {
   const user = (req as any).user;
-  const authMethod = (req as any).authMethod as "jwt" | "api_key" | undefined;
-  if (!user) return res.status(401).json({ error: "Unauthorized" });
-
-  // Require JWT-based auth for key management (so user must be logged in via UI)
-  if (authMethod !== "jwt") {
-    return res.status(403).json({ error: "Must be authenticated via user session to manage API keys" });
-  }
 
-  const { name } = req.body as { name: string };
+  const { name, scopes, expires_at, rate_limit_per_minute, daily_quota, allowed_ips, require_signature } =
+    req.body as CreateApiKeyBody;
 
   try {
     // Ensure name unique for this user
@@ -49,27 +79,20 @@ router.post("/", authorizer, validateBody(createApiKeySchema), async (req, res)
       return res.status(409).json({ error: "API key name already exists" });
     }
 
-    // Generate random raw key (hex), hash it and store only the hash
-    const rawKey = crypto.randomBytes(32).toString("hex"); // 64 hex chars
-    const hashed = hashKey(rawKey);
+    // Only the peppered hash of the secret is stored
+    const { apiKey, key, signingSecret } = await createApiKeyForUser(user.id, {
+      name,
+      scopes,
+      expiresAt: expires_at,
+      rateLimitPerMinute: rate_limit_per_minute,
+      dailyQuota: daily_quota,
+      allowedIps: allowed_ips,
+      requireSignature: require_signature,
+      organizationId: user.organizationId,
+    });
 
-    const { data, error: insertErr } = await supabase
-      .from("api_keys")
-      .insert({
-        user_id: user.id,
-        name,
-        hashed_key: hashed,
-      })
-      .select("id, name, created_at")
-      .single();
-
-    if (insertErr) {
-      console.error("api-keys insert error:", insertErr);
-      return res.status(500).json({ error: "Internal server error" });
-    }
-
-    // Return raw key once to the caller
-    return res.status(201).json({ apiKey: { id: data.id, name: data.name, created_at: data.created_at }, key: rawKey });
+    // Return raw key (and request signing secret) once to the caller
+    return res.status(201).json({ apiKey, key, signingSecret });
   } catch (err) {
     console.error("POST /api-keys unexpected:", err);
     return res.status(500).json({ error: "Internal server error" });
@@ -78,78 +101,173 @@ router.post("/", authorizer, validateBody(createApiKeySchema), async (req, res)
 
 /**
  * GET /api-keys
- * - List keys for the authenticated user (JWT only)
- * - Does NOT return raw keys, only metadata
+ * - List keys for the authenticated user (user session only): with X-Organization-Id the keys of that organization,
+ *   otherwise the keys outside any organization
+ * - Does NOT return raw keys, only metadata (scopes: null = full role)
+ * - expiring_soon flags keys within API_KEY_EXPIRY_WARNING_DAYS of expires_at (or already expired)
  */
-router.get("/", authorizer, async (req, res) => {
+router.get("/", authorizer, authorize("api_key:manage"), async (req, res) => {
   const user = (req as any).user;
-  const authMethod = (req as any).authMethod as "jwt" | "api_key" | undefined;
-  if (!user) return res.status(401).json({ error: "Unauthorized" });
 
-  if (authMethod !== "jwt") {
-    return res.status(403).json({ error: "Must be authenticated via user session to manage API keys" });
+  try {
+    const data = await listApiKeysForUser(user.id, user.organizationId ?? null);
+
+    const now = Date.now();
+    const apiKeys = data.map((key) => ({
+      ...key,
+      expired: isPast(key.expires_at, now),
+      expiring_soon: !key.revoked && isExpiringSoon(key.expires_at, now),
+      // previous secret still accepted after a rotation
+      previous_key_expires_at: isPast(key.previous_key_expires_at, now) ? null : key.previous_key_expires_at,
+    }));
+
+    return res.json({ apiKeys });
+  } catch (err) {
+    console.error("GET /api-keys unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
   }
+});
+
+/**
+ * POST /api-keys/revoke-all
+ * - Revoke every API key of the authenticated user at once (suspected compromise), user session only
+ * - Same organization context as GET /api-keys (X-Organization-Id)
+ */
+router.post("/revoke-all", authorizer, authorize("api_key:manage"), async (req, res) => {
+  const user = (req as any).user;
+
+  try {
+    const revoked = await revokeAllApiKeys(user.id, user.organizationId ?? null);
+    return res.json({ ok: true, revoked });
+  } catch (err) {
+    console.error("POST /api-keys/revoke-all unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * PATCH /api-keys/:id
+ * - Update a key owned by the authenticated user (user session only, policy api_key:update)
+ * - allowed_ips: IP / CIDR allowlist; null or [] removes the restriction
+ * - require_signature: reject requests that are not signed with the key's signing secret
+ */
+router.patch("/:id", authorizer, validateBody(updateApiKeySchema), authorizeOwnKey, async (req, res) => {
+  const user = (req as any).user;
+  // Loaded from the route param by authorizeOwnKey (the body cannot pick another key)
+  const { id } = (req as any).resource;
+
+  const { allowed_ips, require_signature } = req.body as UpdateApiKeyBody;
+
+  const update: Record<string, unknown> = {};
+  if (allowed_ips !== undefined) {
+    update.allowed_ips = allowed_ips && allowed_ips.length > 0 ? [...new Set(allowed_ips)] : null;
+  }
+  if (require_signature !== undefined) update.require_signature = require_signature;
 
   try {
     const { data, error } = await supabase
       .from("api_keys")
-      .select("id, name, revoked, last_used_at, created_at")
-      .eq("user_id", user.id)
-      .order("created_at", { ascending: false });
+      .update(update)
+      .match({ id, user_id: user.id })
+      .select(API_KEY_COLUMNS);
 
     if (error) {
-      console.error("GET /api-keys supabase error:", error);
+      console.error("PATCH /api-keys/:id update error:", error);
       return res.status(500).json({ error: "Internal server error" });
     }
+    if (!data || data.length === 0) {
+      return res.status(404).json({ error: "API key not found" });
+    }
 
-    return res.json({ apiKeys: data ?? [] });
+    invalidateApiKeys([id]);
+    return res.json({ apiKey: data[0] });
   } catch (err) {
-    console.error("GET /api-keys unexpected:", err);
+    console.error("PATCH /api-keys/:id unexpected:", err);
     return res.status(500).json({ error: "Internal server error" });
   }
 });
 
 /**
- * DELETE /api-keys/:id
- * - Revoke/delete an API key owned by the authenticated user (JWT only)
- * - Soft revoke (set revoked=true)
+ * POST /api-keys/:id/rotate
+ * - Issue a new secret for the key (same id, name, scopes and expiry), user session only
+ * - Legacy (un-prefixed) keys come out in the pk_ format
+ * - The previous secret stays valid for gracePeriodSeconds (default API_KEY_ROTATION_GRACE_SECONDS)
+ *   so deployments can switch keys without downtime
+ * - Returns the new raw key and signing secret only once (the old signing secret follows the old key).
  */
-router.delete("/:id", authorizer, async (req, res) => {
-  const user = (req as any).user;
-  const authMethod = (req as any).authMethod as "jwt" | "api_key" | undefined;
-  if (!user) return res.status(401).json({ error: "Unauthorized" });
+router.post("/:id/rotate", authorizer, validateBody(rotateApiKeySchema), authorizeOwnKey, async (req, res) => {
+  const keyRow = (req as any).resource;
+  const { gracePeriodSeconds } = req.body as RotateApiKeyBody;
+  const grace = gracePeriodSeconds ?? API_KEY_ROTATION_GRACE_SECONDS;
+
+  try {
+    if (keyRow.revoked) {
+      return res.status(409).json({ error: "API key revoked" });
+    }
+    if (isPast(keyRow.expires_at)) {
+      return res.status(409).json({ error: "API key expired" });
+    }
+
+    const rotated = await rotateApiKey(keyRow, grace);
+    if (!rotated) {
+      return res.status(409).json({ error: "API key was rotated concurrently, retry" });
+    }
 
-  if (authMethod !== "jwt") {
-    return res.status(403).json({ error: "Must be authenticated via user session to manage API keys" });
+    return res.json(rotated);
+  } catch (err) {
+    console.error("POST /api-keys/:id/rotate unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
   }
+});
+
+/**
+ * GET /api-keys/:id/usage
+ * - Usage of a key owned by the authenticated user (user session only)
+ * - ?bucket=hour|day&from=&to=&recent=20
+ * - buckets: { bucket, total, errors, avg_latency_ms } per hour/day; recent: latest calls
+ * - Events are written in batches: the last few seconds may not be visible yet
+ */
+router.get("/:id/usage", authorizer, validateBody(apiKeyUsageQuerySchema), authorizeOwnKey, async (req, res) => {
+  const keyRow = (req as any).resource;
+  const q = req.body as ApiKeyUsageQuery;
+  const to = q.to ? new Date(q.to) : new Date();
+  const defaultSpanMs = (q.bucket === "day" ? 30 : 1) * 24 * 60 * 60 * 1000;
+  const from = q.from ? new Date(q.from) : new Date(to.getTime() - defaultSpanMs);
 
-  const id = req.params.id;
   try {
-    // Verify ownership
-    const { data: keyRow, error: selectErr } = await supabase
-      .from("api_keys")
-      .select("id, user_id, revoked")
-      .eq("id", id)
-      .limit(1)
-      .single();
+    const usage = await getApiKeyUsage(keyRow.id, {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      bucket: q.bucket,
+      recent: q.recent,
+    });
 
-    if (selectErr || !keyRow) {
-      return res.status(404).json({ error: "API key not found" });
-    }
-    if (keyRow.user_id !== user.id) {
-      return res.status(403).json({ error: "Forbidden" });
-    }
+    return res.json({ from: from.toISOString(), to: to.toISOString(), bucket: q.bucket, ...usage });
+  } catch (err) {
+    console.error("GET /api-keys/:id/usage unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
 
-    // Soft revoke
+/**
+ * DELETE /api-keys/:id
+ * - Revoke/delete an API key owned by the authenticated user (user session only)
+ * - Soft revoke (set revoked=true)
+ */
+router.delete("/:id", authorizer, authorizeOwnKey, async (req, res) => {
+  const id = req.params.id;
+  try {
+    // Soft revoke (ownership checked by authorizeOwnKey)
     const { error: updateErr } = await supabase
       .from("api_keys")
-      .update({ revoked: true })
+      .update({ revoked: true, revoked_at: new Date().toISOString() })
       .eq("id", id);
 
     if (updateErr) {
       console.error("DELETE /api-keys update error:", updateErr);
       return res.status(500).json({ error: "Internal server error" });
     }
+    invalidateApiKeys([id!]);
 
     return res.json({ ok: true });
   } catch (err) {
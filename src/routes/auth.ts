@@ -1,20 +1,65 @@
-import { Router } from "express";
+import { Router, Request, Response } from "express";
 import bcrypt from "bcrypt";
 import { supabase } from "../supabase";
-import { signupSchema, loginSchema, changePasswordSchema } from "../zod-schemas/user";
+import {
+    signupSchema,
+    loginSchema,
+    changePasswordSchema,
+    refreshTokenSchema,
+    forgotPasswordSchema,
+    resetPasswordSchema,
+    verifyEmailSchema,
+    ChangePasswordBody,
+} from "../zod-schemas/user";
+import { loginTwoFactorSchema } from "../zod-schemas/twoFactor";
 import { validateBody } from "../middleware/validate";
-import { signJwt } from "../utils/jwt";
-import { authorizer } from "../middleware/authorizer";
+import { authorizer, allowTwoFactorEnrollment, isUserSession } from "../middleware/authorizer";
 import { requirePermission } from "../middleware/permissions";
+import {
+    createSession,
+    rotateRefreshToken,
+    listSessionsForUser,
+    revokeSession,
+    revokeAllSessions,
+} from "../utils/sessions";
+import {
+    claimCredentialAttempt,
+    clientIp,
+    credentialSucceeded,
+    mailThrottle,
+    sendTooManyAttempts,
+} from "../utils/throttle";
+import { createPasswordResetToken, consumePasswordResetToken } from "../utils/passwordReset";
+import { verifySecondFactor } from "../utils/twoFactor";
+import { sendVerificationEmail, confirmEmailVerification } from "../utils/emailVerification";
+import { verifyJwt } from "../utils/jwt";
+import { completeLogin, isLoginAllowed, isAccountDisabled, sessionMeta } from "../utils/login";
+import { REFRESH_COOKIE, setSessionCookies, clearSessionCookies, checkCsrf } from "../utils/cookies";
+import { revokeAllApiKeys } from "../utils/apiKeys";
+import { invalidateUser } from "../utils/principalCache";
+import { sendMail } from "../mailer";
 
 const router = Router();
 
-const lastLoginAttempt = new Map<string, number>();
-const LOGIN_LIMIT_MS = 5_000;
+const PASSWORD_RESET_URL = process.env.PASSWORD_RESET_URL ?? "http://localhost:3000/reset-password";
+
+
+/**
+ * Send the result of completeLogin. With `cookie: true` the tokens go into HttpOnly cookies
+ * and the body only carries the user and the CSRF token to echo in X-CSRF-Token.
+ */
+function sendLoginResult(res: Response, result: Awaited<ReturnType<typeof completeLogin>>, useCookie: boolean) {
+    if (!useCookie || !("token" in result)) {
+        return res.json(result);
+    }
+    const csrfToken = setSessionCookies(res, result);
+    return res.json({ user: result.user, csrfToken, expiresIn: result.expiresIn });
+}
 
 /**
  * POST /auth/signin
  * Insert user with role = 'USER' by default (verifies existence of role)
+ * A verification link is mailed; until it is used the role's restricted_until_verified permissions are denied.
  */
 router.post("/signin", validateBody(signupSchema), async (req, res) => {
     const { name, email, password } = req.body as { name: string; email: string; password: string };
@@ -58,7 +103,7 @@ router.post("/signin", validateBody(signupSchema), async (req, res) => {
                 password: passwordHash,
                 role: roleData.name, // store role as string referencing roles.name
             })
-            .select("id, name, email, created_at")
+            .select("id, name, email, created_at, email_verified_at")
             .single();
 
         if (insertError) {
@@ -70,9 +115,16 @@ router.post("/signin", validateBody(signupSchema), async (req, res) => {
         }
 
         const user = data;
-        const token = signJwt({ userId: user.id, email: user.email });
+        const tokens = await createSession(user, sessionMeta(req));
 
-        return res.status(201).json({ user, token });
+        // The account exists either way; a failed mail can be retried with /auth/resend-verification
+        try {
+            await sendVerificationEmail(user);
+        } catch (mailErr) {
+            console.error("signin: failed to send verification email:", mailErr);
+        }
+
+        return res.status(201).json({ user, ...tokens });
     } catch (err) {
         console.error("signin error:", err);
         return res.status(500).json({ error: "Internal server error" });
@@ -81,26 +133,27 @@ router.post("/signin", validateBody(signupSchema), async (req, res) => {
 
 /**
  * POST /auth/login
+ * - When the user has 2FA enabled, no session is created: the response is
+ *   { twoFactorRequired: true, challengeToken } and the login finishes at POST /auth/login/2fa
+ * - { cookie: true }: browser session in HttpOnly cookies (see utils/cookies)
  */
 router.post("/login", validateBody(loginSchema), async (req, res) => {
-    const { email, password } = req.body as { email: string; password: string };
+    const { email, password, cookie } = req.body as { email: string; password: string; cookie?: boolean };
     const emailLower = email.toLowerCase();
-
-    const now = Date.now();
-    const last = lastLoginAttempt.get(emailLower) ?? 0;
-    const diff = now - last;
-    if (diff < LOGIN_LIMIT_MS) {
-        const retryAfter = Math.ceil((LOGIN_LIMIT_MS - diff) / 1000);
-        res.setHeader("Retry-After", String(retryAfter));
-        return res.status(429).json({ error: `Too many attempts. Try again in ${retryAfter} seconds` });
-    }
-    lastLoginAttempt.set(emailLower, now);
+    const throttleKey = `login:email:${emailLower}`;
+    const ip = clientIp(req);
 
     try {
+        // Brute-force protection: per email and per client IP (backoff, then temporary lockout)
+        const waitMs = await claimCredentialAttempt(throttleKey, ip);
+        if (waitMs > 0) {
+            return sendTooManyAttempts(res, waitMs);
+        }
+
         // fetch user including role (string)
         const { data: userRow, error: selectError } = await supabase
             .from("users")
-            .select("id, name, email, password, role, password_changed_at, created_at")
+            .select("id, name, email, password, role, password_changed_at, created_at, totp_enabled_at, disabled_at")
             .eq("email", emailLower)
             .limit(1)
             .single();
@@ -110,23 +163,7 @@ router.post("/login", validateBody(loginSchema), async (req, res) => {
             return res.status(401).json({ error: "Invalid credentials" });
         }
 
-        // Load role row by name to check permissions (do NOT select roles.id)
-        let role = null;
-        if (userRow.role) {
-            const { data: roleRow, error: roleErr } = await supabase
-                .from("roles")
-                .select("name, can_post_login, can_get_my_user, can_get_users, can_post_products")
-                .eq("name", userRow.role)
-                .single();
-
-            if (roleErr) {
-                console.error("login: failed to load role:", roleErr);
-            } else {
-                role = roleRow;
-            }
-        }
-
-        if (role && role.can_post_login === false) {
+        if (!(await isLoginAllowed(userRow.role))) {
             return res.status(403).json({ error: "Forbidden: role not allowed to login" });
         }
 
@@ -135,37 +172,107 @@ router.post("/login", validateBody(loginSchema), async (req, res) => {
             return res.status(401).json({ error: "Invalid credentials" });
         }
 
-        const token = signJwt({ userId: userRow.id, email: userRow.email });
+        await credentialSucceeded(throttleKey, ip);
 
-        const user = {
-            id: userRow.id,
-            name: userRow.name,
-            email: userRow.email,
-            created_at: userRow.created_at,
-            role: userRow.role,
-        };
+        // Checked after the password so the answer does not reveal the account state to a guesser
+        if (isAccountDisabled(userRow)) {
+            return res.status(403).json({ error: "Forbidden: account disabled" });
+        }
 
-        return res.json({ user, token });
+        return sendLoginResult(res, await completeLogin(req, userRow), Boolean(cookie));
     } catch (err) {
         console.error("login error:", err);
         return res.status(500).json({ error: "Internal server error" });
     }
 });
 
+/**
+ * POST /auth/login/2fa
+ * - Second step of the login for users with 2FA: challenge token from /auth/login + TOTP or recovery code
+ */
+router.post("/login/2fa", validateBody(loginTwoFactorSchema), async (req, res) => {
+    const { challengeToken, code, recoveryCode, cookie } = req.body as {
+        challengeToken: string;
+        code?: string;
+        recoveryCode?: string;
+        cookie?: boolean;
+    };
+
+    let payload: any;
+    try {
+        payload = verifyJwt(challengeToken);
+    } catch (err) {
+        return res.status(401).json({ error: "Invalid or expired challenge token" });
+    }
+    if (payload?.typ !== "2fa_challenge" || !payload?.userId) {
+        return res.status(401).json({ error: "Invalid or expired challenge token" });
+    }
+
+    const throttleKey = `2fa:user:${payload.userId}`;
+    const ip = clientIp(req);
+
+    try {
+        const waitMs = await claimCredentialAttempt(throttleKey, ip);
+        if (waitMs > 0) {
+            return sendTooManyAttempts(res, waitMs);
+        }
+
+        const { data: userRow, error: selectError } = await supabase
+            .from("users")
+            .select("id, name, email, role, created_at, totp_secret, totp_enabled_at, totp_last_step, disabled_at")
+            .eq("id", payload.userId)
+            .single();
+
+        if (selectError || !userRow || !userRow.totp_enabled_at) {
+            console.error("supabase select (login/2fa) error:", selectError);
+            return res.status(401).json({ error: "Invalid or expired challenge token" });
+        }
+
+        if (!(await verifySecondFactor(userRow, { code, recoveryCode }))) {
+            return res.status(401).json({ error: "Invalid code" });
+        }
+
+        await credentialSucceeded(throttleKey, ip);
+
+        if (isAccountDisabled(userRow)) {
+            return res.status(403).json({ error: "Forbidden: account disabled" });
+        }
+
+        return sendLoginResult(
+            res,
+            await completeLogin(req, userRow, { secondFactorVerified: true }),
+            Boolean(cookie)
+        );
+    } catch (err) {
+        console.error("login/2fa error:", err);
+        return res.status(500).json({ error: "Internal server error" });
+    }
+});
+
 /**
  * POST /auth/change-password
+ * - revokes every session; revokeApiKeys: true also revokes every API key in the same call
  */
 router.post("/change-password", authorizer, validateBody(changePasswordSchema),
     async (req, res) => {
-        const { oldPassword, newPassword } = req.body as {
-            oldPassword: string;
-            newPassword: string;
-        };
+        const { oldPassword, newPassword, revokeApiKeys } = req.body as ChangePasswordBody;
 
         const user = (req as any).user;
         if (!user) return res.status(401).json({ error: "Unauthorized" });
+        if (user.principalType === "service_account") {
+            return res.status(403).json({ error: "Service accounts have no password" });
+        }
+
+        const throttleKey = `change-password:user:${user.id}`;
+        const ip = clientIp(req);
 
         try {
+            // A stolen session must not be usable to brute-force the current password
+            const waitMs = await claimCredentialAttempt(throttleKey, ip);
+            if (waitMs > 0) {
+                return sendTooManyAttempts(res, waitMs);
+            }
+
             const { data, error: selectError } = await supabase
                 .from("users")
                 .select("password")
@@ -184,6 +291,8 @@ router.post("/change-password", authorizer, validateBody(changePasswordSchema),
                 return res.status(400).json({ error: "Old password is incorrect" });
             }
 
+            await credentialSucceeded(throttleKey, ip);
+
             const newHash = await bcrypt.hash(newPassword, 12);
 
             const { error: updateError } = await supabase
@@ -199,7 +308,13 @@ router.post("/change-password", authorizer, validateBody(changePasswordSchema),
                 return res.status(500).json({ error: "Internal server error" });
             }
 
-            return res.json({ ok: true });
+            // Access tokens are already invalidated by password_changed_at; also kill refresh tokens
+            invalidateUser(user.id);
+            await revokeAllSessions(user.id);
+
+            const apiKeysRevoked = revokeApiKeys ? await revokeAllApiKeys(user.id) : 0;
+
+            return res.json({ ok: true, apiKeysRevoked });
         } catch (err) {
             console.error("change-password unexpected:", err);
             return res.status(500).json({ error: "Internal server error" });
@@ -207,4 +322,276 @@ router.post("/change-password", authorizer, validateBody(changePasswordSchema),
     }
 );
 
+/**
+ * Create a reset token for the account of this address (if any) and mail the link
+ */
+async function sendPasswordResetMail(emailLower: string) {
+    const { data: userRow, error: selectError } = await supabase
+        .from("users")
+        .select("id, name, email")
+        .eq("email", emailLower)
+        .limit(1)
+        .maybeSingle();
+
+    if (selectError) throw selectError;
+    if (!userRow) return;
+
+    const { token, expiresAt } = await createPasswordResetToken(userRow.id);
+    const link = `${PASSWORD_RESET_URL}?token=${encodeURIComponent(token)}`;
+    await sendMail({
+        to: userRow.email,
+        subject: "Reset your password",
+        text:
+            `Hello ${userRow.name},\n\n` +
+            `Use the link below to choose a new password. It can be used once and expires at ${expiresAt}.\n\n` +
+            `${link}\n\n` +
+            `If you did not ask for this, you can ignore this email.`,
+    });
+}
+
+/**
+ * POST /auth/forgot-password
+ * - Mail a single-use reset link to the address if it belongs to a user (throttled per address)
+ * - Always answers 200 so the endpoint cannot be used to enumerate accounts: the lookup and the mail
+ *   happen after the response, so known and unknown addresses take the same time
+ */
+router.post("/forgot-password", validateBody(forgotPasswordSchema), async (req, res) => {
+    const { email } = req.body as { email: string };
+    const emailLower = email.toLowerCase();
+    const throttleKey = `forgot-password:email:${emailLower}`;
+
+    try {
+        const waitMs = await mailThrottle.check([throttleKey]);
+        if (waitMs > 0) {
+            return sendTooManyAttempts(res, waitMs);
+        }
+        await mailThrottle.fail([throttleKey]);
+
+        sendPasswordResetMail(emailLower).catch((err) => {
+            console.error("forgot-password: send error:", err);
+        });
+        return res.json({ ok: true });
+    } catch (err) {
+        console.error("forgot-password unexpected:", err);
+        return res.status(500).json({ error: "Internal server error" });
+    }
+});
+
+/**
+ * POST /auth/reset-password
+ * - Set a new password using a token from /auth/forgot-password
+ * - Sets password_changed_at (old JWTs rejected by authorizer) and revokes every session
+ * - Gives accounts created through OIDC a usable password (has_password)
+ */
+router.post("/reset-password", validateBody(resetPasswordSchema), async (req, res) => {
+    const { token, newPassword } = req.body as { token: string; newPassword: string };
+
+    try {
+        const userId = await consumePasswordResetToken(token);
+        if (!userId) {
+            return res.status(400).json({ error: "Invalid or expired reset token" });
+        }
+
+        const newHash = await bcrypt.hash(newPassword, 12);
+
+        const { error: updateError } = await supabase
+            .from("users")
+            .update({
+                password: newHash,
+                has_password: true,
+                password_changed_at: new Date().toISOString(),
+            })
+            .eq("id", userId);
+
+        if (updateError) {
+            console.error("reset-password: supabase update error:", updateError);
+            return res.status(500).json({ error: "Internal server error" });
+        }
+
+        invalidateUser(userId);
+        await revokeAllSessions(userId);
+
+        return res.json({ ok: true });
+    } catch (err) {
+        console.error("reset-password unexpected:", err);
+        return res.status(500).json({ error: "Internal server error" });
+    }
+});
+
+/**
+ * POST /auth/verify-email  { token }
+ * GET  /auth/verify-email?token=...  (link from the verification email)
+ */
+const verifyEmailHandler = async (req: Request, res: Response) => {
+    const { token } = req.body as { token: string };
+
+    try {
+        const userId = await confirmEmailVerification(token);
+        if (!userId) {
+            return res.status(400).json({ error: "Invalid or expired verification token" });
+        }
+        return res.json({ ok: true });
+    } catch (err) {
+        console.error("verify-email unexpected:", err);
+        return res.status(500).json({ error: "Internal server error" });
+    }
+};
+
+router.post("/verify-email", validateBody(verifyEmailSchema), verifyEmailHandler);
+router.get("/verify-email", validateBody(verifyEmailSchema), verifyEmailHandler);
+
+/**
+ * POST /auth/resend-verification
+ * - Mail a new verification link to the authenticated user (throttled per user)
+ */
+router.post("/resend-verification", authorizer, async (req, res) => {
+    const user = (req as any).user;
+    if (!user) return res.status(401).json({ error: "Unauthorized" });
+    if (user.emailVerified) {
+        return res.status(409).json({ error: "Email already verified" });
+    }
+
+    const throttleKey = `verify-email:user:${user.id}`;
+
+    try {
+        const waitMs = await mailThrottle.check([throttleKey]);
+        if (waitMs > 0) {
+            return sendTooManyAttempts(res, waitMs);
+        }
+
+        await mailThrottle.fail([throttleKey]);
+        await sendVerificationEmail(user);
+        return res.json({ ok: true });
+    } catch (err) {
+        console.error("resend-verification unexpected:", err);
+        return res.status(500).json({ error: "Internal server error" });
+    }
+});
+
+/**
+ * POST /auth/refresh
+ * - Exchange a refresh token for a new access token + a new refresh token (rotation)
+ * - The presented refresh token cannot be used again
+ * - Cookie sessions: without a body token, the refresh_token cookie is used (CSRF header required)
+ *   and the new tokens are set as cookies again
+ */
+router.post("/refresh", validateBody(refreshTokenSchema), async (req, res) => {
+    const bodyToken = (req.body as { refreshToken?: string }).refreshToken;
+    const cookieToken = req.cookies?.[REFRESH_COOKIE] as string | undefined;
+    const refreshToken = bodyToken ?? cookieToken;
+    if (!refreshToken) {
+        return res.status(400).json({ error: "refresh token is required" });
+    }
+
+    const viaCookie = !bodyToken;
+    if (viaCookie && !checkCsrf(req, refreshToken.split(".")[0] ?? "")) {
+        return res.status(403).json({ error: "Invalid or missing CSRF token" });
+    }
+
+    try {
+        const rotated = await rotateRefreshToken(refreshToken, sessionMeta(req));
+        if (!rotated) {
+            if (viaCookie) clearSessionCookies(res);
+            return res.status(401).json({ error: "Invalid or expired refresh token" });
+        }
+
+        if (viaCookie) {
+            const csrfToken = setSessionCookies(res, rotated);
+            return res.json({ csrfToken, expiresIn: rotated.expiresIn });
+        }
+
+        const { token, refreshToken: newRefreshToken, expiresIn } = rotated;
+        return res.json({ token, refreshToken: newRefreshToken, expiresIn });
+    } catch (err) {
+        console.error("refresh unexpected:", err);
+        return res.status(500).json({ error: "Internal server error" });
+    }
+});
+
+/**
+ * POST /auth/logout
+ * - Revoke the session the current access token belongs to
+ */
+router.post("/logout", allowTwoFactorEnrollment, authorizer, async (req, res) => {
+    const user = (req as any).user;
+    if (!user) return res.status(401).json({ error: "Unauthorized" });
+    if (!isUserSession(req)) {
+        return res.status(403).json({ error: "Must be authenticated via user session to logout" });
+    }
+
+    try {
+        await revokeSession(user.id, user.sessionId);
+        clearSessionCookies(res);
+        return res.json({ ok: true });
+    } catch (err) {
+        console.error("logout unexpected:", err);
+        return res.status(500).json({ error: "Internal server error" });
+    }
+});
+
+/**
+ * POST /auth/logout-all
+ * - Revoke every session of the authenticated user (current one included)
+ */
+router.post("/logout-all", authorizer, async (req, res) => {
+    const user = (req as any).user;
+    if (!user) return res.status(401).json({ error: "Unauthorized" });
+    if (!isUserSession(req)) {
+        return res.status(403).json({ error: "Must be authenticated via user session to logout" });
+    }
+
+    try {
+        await revokeAllSessions(user.id);
+        clearSessionCookies(res);
+        return res.json({ ok: true });
+    } catch (err) {
+        console.error("logout-all unexpected:", err);
+        return res.status(500).json({ error: "Internal server error" });
+    }
+});
+
+/**
+ * GET /auth/sessions
+ * - List active sessions (devices) of the authenticated user
+ * - `current` flags the session the request was made with
+ */
+router.get("/sessions", authorizer, async (req, res) => {
+    const user = (req as any).user;
+    if (!user) return res.status(401).json({ error: "Unauthorized" });
+    if (!isUserSession(req)) {
+        return res.status(403).json({ error: "Must be authenticated via user session to manage sessions" });
+    }
+
+    try {
+        const sessions = await listSessionsForUser(user.id);
+        return res.json({
+            sessions: sessions.map((s: any) => ({ ...s, current: s.id === user.sessionId })),
+        });
+    } catch (err) {
+        console.error("GET /auth/sessions unexpected:", err);
+        return res.status(500).json({ error: "Internal server error" });
+    }
+});
+
+/**
+ * DELETE /auth/sessions/:id
+ * - Revoke one session (e.g. a lost device) owned by the authenticated user
+ */
+router.delete("/sessions/:id", authorizer, async (req, res) => {
+    const user = (req as any).user;
+    if (!user) return res.status(401).json({ error: "Unauthorized" });
+    if (!isUserSession(req)) {
+        return res.status(403).json({ error: "Must be authenticated via user session to manage sessions" });
+    }
+
+    try {
+        const revoked = await revokeSession(user.id, req.params.id!);
+        if (!revoked) return res.status(404).json({ error: "Session not found" });
+        return res.json({ ok: true });
+    } catch (err) {
+        console.error("DELETE /auth/sessions unexpected:", err);
+        return res.status(500).json({ error: "Internal server error" });
+    }
+});
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,190 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { supabase } from "../supabase";
+import { validateBody } from "../middleware/validate";
+import { authorizer, isUserSession } from "../middleware/authorizer";
+import { oidcCallbackSchema } from "../zod-schemas/oidc";
+import {
+  getOidcProvider,
+  listOidcProviders,
+  createAuthorizationRequest,
+  consumeAuthorizationRequest,
+  exchangeCodeForIdentity,
+  resolveIdentityUser,
+  hashState,
+  AUTH_REQUEST_TTL_MS,
+} from "../utils/oidc";
+import { setOidcStateCookie, clearOidcStateCookie, oidcStateCookieMatches } from "../utils/cookies";
+import { completeLogin, isLoginAllowed, isAccountDisabled } from "../utils/login";
+
+const router = Router();
+
+/**
+ * Resolve :provider to its configuration (404 for unknown providers)
+ */
+function withProvider(req: Request, res: Response, next: NextFunction) {
+  const provider = getOidcProvider(req.params.provider ?? "");
+  if (!provider) return res.status(404).json({ error: "Unknown identity provider" });
+  (req as any).oidcProvider = provider;
+  return next();
+}
+
+function requireUserSession(req: Request, res: Response, next: NextFunction) {
+  if (!isUserSession(req)) {
+    return res.status(403).json({ error: "Must be authenticated via user session to manage linked identities" });
+  }
+  return next();
+}
+
+/**
+ * GET /auth/oidc/providers
+ * - Names of the configured identity providers
+ */
+router.get("/providers", (_req, res) => {
+  return res.json({ providers: listOidcProviders() });
+});
+
+/**
+ * GET /auth/oidc/identities
+ * - Identities linked to the authenticated user
+ */
+router.get("/identities", authorizer, requireUserSession, async (req, res) => {
+  const user = (req as any).user;
+  try {
+    const { data, error } = await supabase
+      .from("user_identities")
+      .select("id, provider, email, created_at, last_login_at")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("GET /auth/oidc/identities supabase error:", error);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+    return res.json({ identities: data ?? [] });
+  } catch (err) {
+    console.error("GET /auth/oidc/identities unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * DELETE /auth/oidc/identities/:id
+ * - Unlink an identity from the authenticated user
+ */
+router.delete("/identities/:id", authorizer, requireUserSession, async (req, res) => {
+  const user = (req as any).user;
+  try {
+    const { data, error } = await supabase
+      .from("user_identities")
+      .delete()
+      .match({ id: req.params.id, user_id: user.id })
+      .select("id");
+
+    if (error) {
+      console.error("DELETE /auth/oidc/identities supabase error:", error);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+    if (!data || data.length === 0) return res.status(404).json({ error: "Identity not found" });
+    return res.json({ ok: true });
+  } catch (err) {
+    console.error("DELETE /auth/oidc/identities unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * GET /auth/oidc/:provider/login
+ * - Redirect the browser to the provider (authorization code + PKCE); the state is bound to this browser
+ */
+router.get("/:provider/login", withProvider, async (req, res) => {
+  try {
+    const { url, stateHash } = await createAuthorizationRequest((req as any).oidcProvider);
+    setOidcStateCookie(res, stateHash, AUTH_REQUEST_TTL_MS);
+    return res.redirect(302, url);
+  } catch (err) {
+    console.error("GET /auth/oidc/login unexpected:", err);
+    return res.status(502).json({ error: "Identity provider unavailable" });
+  }
+});
+
+/**
+ * POST /auth/oidc/:provider/link
+ * - Explicit linking step: returns the URL that links the provider identity to the authenticated user
+ *   (the browser must follow it: the state is bound to it like /login)
+ */
+router.post("/:provider/link", withProvider, authorizer, requireUserSession, async (req, res) => {
+  const user = (req as any).user;
+  try {
+    const { url, stateHash } = await createAuthorizationRequest((req as any).oidcProvider, user.id);
+    setOidcStateCookie(res, stateHash, AUTH_REQUEST_TTL_MS);
+    return res.json({ authorizationUrl: url });
+  } catch (err) {
+    console.error("POST /auth/oidc/link unexpected:", err);
+    return res.status(502).json({ error: "Identity provider unavailable" });
+  }
+});
+
+/**
+ * GET /auth/oidc/:provider/callback?code=...&state=...
+ * - Validates state (and that this browser started the flow: oidc_state cookie), exchanges the code,
+ *   validates the ID token
+ * - Login: same response as POST /auth/login ({ user, token, ... } or the 2FA challenge)
+ * - Linking: { ok: true, linked: true }
+ */
+router.get("/:provider/callback", withProvider, validateBody(oidcCallbackSchema), async (req, res) => {
+  const provider = (req as any).oidcProvider;
+  const { code, state, error, error_description } = req.body as {
+    code?: string;
+    state: string;
+    error?: string;
+    error_description?: string;
+  };
+
+  try {
+    const stateBound = oidcStateCookieMatches(req, hashState(state));
+    clearOidcStateCookie(res);
+    if (!stateBound) {
+      return res.status(400).json({ error: "Invalid or expired state" });
+    }
+
+    const authRequest = await consumeAuthorizationRequest(provider, state);
+    if (!authRequest) {
+      return res.status(400).json({ error: "Invalid or expired state" });
+    }
+    if (error || !code) {
+      return res.status(400).json({ error: `Identity provider error: ${error_description ?? error ?? "missing code"}` });
+    }
+
+    let claims;
+    try {
+      claims = await exchangeCodeForIdentity(provider, code, authRequest.code_verifier, authRequest.nonce);
+    } catch (err: any) {
+      console.warn("oidc callback: code exchange / id_token validation failed:", err?.response?.data ?? String(err));
+      return res.status(401).json({ error: "Identity provider authentication failed" });
+    }
+
+    const resolved = await resolveIdentityUser(provider, claims, authRequest.link_user_id);
+    if ("error" in resolved) {
+      return res.status(resolved.status).json({ error: resolved.error });
+    }
+
+    if (authRequest.link_user_id) {
+      return res.json({ ok: true, linked: true });
+    }
+
+    if (isAccountDisabled(resolved.user)) {
+      return res.status(403).json({ error: "Forbidden: account disabled" });
+    }
+
+    if (!(await isLoginAllowed(resolved.user.role))) {
+      return res.status(403).json({ error: "Forbidden: role not allowed to login" });
+    }
+
+    return res.json(await completeLogin(req, resolved.user));
+  } catch (err) {
+    console.error("GET /auth/oidc/callback unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
\ No newline at end of file
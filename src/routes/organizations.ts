@@ -0,0 +1,269 @@
+import { Router } from "express";
+import { authorizer, isUserSession } from "../middleware/authorizer";
+import { requirePermission } from "../middleware/permissions";
+import { validateBody } from "../middleware/validate";
+import { supabase } from "../supabase";
+import {
+  createOrganizationSchema,
+  updateOrganizationSchema,
+  setOrganizationMemberSchema,
+  CreateOrganizationBody,
+  UpdateOrganizationBody,
+  SetOrganizationMemberBody,
+} from "../zod-schemas/organization";
+import {
+  MEMBER_COLUMNS,
+  ORGANIZATION_COLUMNS,
+  encryptedCredentials,
+  getMembership,
+  loadOrganization,
+  toPublicOrganization,
+} from "../utils/organizations";
+import { invalidateMembership } from "../utils/principalCache";
+import { canAssignRole, loadRole } from "../utils/roles";
+
+/**
+ * Organizations (see utils/organizations.ts)
+ *
+ * Every route: user session. Members read their organizations; creating / updating organizations and
+ * managing members requires can_manage_organizations. Shopify credentials are write-only (encrypted at rest).
+ */
+const router = Router();
+
+router.use(authorizer, (req, res, next) => {
+  if (!isUserSession(req)) {
+    return res.status(403).json({ error: "Must be authenticated via user session to manage organizations" });
+  }
+  return next();
+});
+
+const requireManager = requirePermission("can_manage_organizations");
+
+/**
+ * GET /organizations
+ * - managers: every organization; others: the organizations they are a member of, with their role
+ */
+router.get("/", async (req, res) => {
+  const user = (req as any).user;
+
+  try {
+    if (user.role?.can_manage_organizations) {
+      const { data, error } = await supabase
+        .from("organizations")
+        .select(ORGANIZATION_COLUMNS)
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        console.error("GET /organizations supabase error:", error);
+        return res.status(500).json({ error: "Internal server error" });
+      }
+      return res.json({ organizations: (data ?? []).map(toPublicOrganization) });
+    }
+
+    const { data, error } = await supabase
+      .from("organization_members")
+      .select(`role, organization:organizations(${ORGANIZATION_COLUMNS})`)
+      .eq("user_id", user.id);
+
+    if (error) {
+      console.error("GET /organizations members error:", error);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+    return res.json({
+      organizations: (data ?? [])
+        .filter((m: any) => m.organization)
+        .map((m: any) => ({ ...toPublicOrganization(m.organization), role: m.role })),
+    });
+  } catch (err) {
+    console.error("GET /organizations unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * POST /organizations
+ * - { name, shop_domain, shopify_access_token, webhook_secret? }; members are added with PUT /:id/members/:userId
+ */
+router.post("/", requireManager, validateBody(createOrganizationSchema), async (req, res) => {
+  const admin = (req as any).user;
+  const { name, shop_domain, shopify_access_token, webhook_secret } = req.body as CreateOrganizationBody;
+
+  try {
+    const { data, error } = await supabase
+      .from("organizations")
+      .insert({
+        name,
+        shop_domain,
+        ...encryptedCredentials({ shopify_access_token, webhook_secret }),
+        created_by: admin.id,
+      })
+      .select(ORGANIZATION_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      // unique_violation on shop_domain
+      if ((error as any)?.code === "23505") {
+        return res.status(409).json({ error: "Shop already belongs to an organization" });
+      }
+      console.error("POST /organizations insert error:", error);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+    return res.status(201).json({ organization: toPublicOrganization(data) });
+  } catch (err) {
+    console.error("POST /organizations unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * GET /organizations/:id
+ * - managers and members (404 for anyone else)
+ */
+router.get("/:id", async (req, res) => {
+  const user = (req as any).user;
+
+  try {
+    const organization = await loadOrganization(req.params.id);
+    if (!organization) return res.status(404).json({ error: "Organization not found" });
+
+    if (!user.role?.can_manage_organizations && !(await getMembership(organization.id, user.id))) {
+      return res.status(404).json({ error: "Organization not found" });
+    }
+    return res.json({ organization: toPublicOrganization(organization) });
+  } catch (err) {
+    console.error("GET /organizations/:id unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * PATCH /organizations/:id
+ * - { name?, shop_domain?, shopify_access_token?, webhook_secret? } (webhook_secret null = use SHOPIFY_WEBHOOK_SECRET)
+ */
+router.patch("/:id", requireManager, validateBody(updateOrganizationSchema), async (req, res) => {
+  const { id, name, shop_domain, shopify_access_token, webhook_secret } = req.body as UpdateOrganizationBody;
+
+  try {
+    const update: Record<string, unknown> = encryptedCredentials({ shopify_access_token, webhook_secret });
+    if (name !== undefined) update.name = name;
+    if (shop_domain !== undefined) update.shop_domain = shop_domain;
+
+    const { data, error } = await supabase.from("organizations").update(update).eq("id", id).select(ORGANIZATION_COLUMNS);
+    if (error) {
+      if ((error as any).code === "23505") {
+        return res.status(409).json({ error: "Shop already belongs to an organization" });
+      }
+      if ((error as any).code === "22P02") return res.status(404).json({ error: "Organization not found" });
+      console.error("PATCH /organizations/:id update error:", error);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+    if (!data || data.length === 0) return res.status(404).json({ error: "Organization not found" });
+
+    return res.json({ organization: toPublicOrganization(data[0]) });
+  } catch (err) {
+    console.error("PATCH /organizations/:id unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * GET /organizations/:id/members
+ */
+router.get("/:id/members", requireManager, async (req, res) => {
+  try {
+    const organization = await loadOrganization(req.params.id!);
+    if (!organization) return res.status(404).json({ error: "Organization not found" });
+
+    const { data, error } = await supabase
+      .from("organization_members")
+      .select(MEMBER_COLUMNS)
+      .eq("organization_id", organization.id)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("GET /organizations/:id/members supabase error:", error);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+    return res.json({ members: data ?? [] });
+  } catch (err) {
+    console.error("GET /organizations/:id/members unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * PUT /organizations/:id/members/:userId
+ * - { role }: add the user (or service account) or change their role in the organization
+ * - only roles whose permissions the caller has (unless they have can_manage_roles, see canAssignRole)
+ */
+router.put("/:id/members/:userId", requireManager, validateBody(setOrganizationMemberSchema), async (req, res) => {
+  const admin = (req as any).user;
+  const { id, userId, role } = req.body as SetOrganizationMemberBody;
+
+  try {
+    const organization = await loadOrganization(id);
+    if (!organization) return res.status(404).json({ error: "Organization not found" });
+
+    const roleRow = await loadRole(role);
+    if (!roleRow) return res.status(400).json({ error: "Unknown role" });
+    if (!canAssignRole(admin.role, roleRow)) {
+      return res.status(403).json({ error: "Forbidden: role has permissions you do not have" });
+    }
+
+    const { data: userRow, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("id", userId)
+      .is("deleted_at", null)
+      .maybeSingle();
+    if (userError && userError.code !== "22P02") throw userError;
+    if (!userRow) return res.status(404).json({ error: "User not found" });
+
+    const { data, error } = await supabase
+      .from("organization_members")
+      .upsert({ organization_id: organization.id, user_id: userRow.id, role }, { onConflict: "organization_id,user_id" })
+      .select(MEMBER_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error("PUT /organizations/:id/members/:userId upsert error:", error);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+
+    invalidateMembership(organization.id, userRow.id);
+    return res.json({ member: data });
+  } catch (err) {
+    console.error("PUT /organizations/:id/members/:userId unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * DELETE /organizations/:id/members/:userId
+ * - the user's keys bound to the organization stop working (authorizer checks the membership)
+ */
+router.delete("/:id/members/:userId", requireManager, async (req, res) => {
+  const { id, userId } = req.params;
+
+  try {
+    const { data, error } = await supabase
+      .from("organization_members")
+      .delete()
+      .match({ organization_id: id, user_id: userId })
+      .select("user_id");
+
+    if (error && error.code !== "22P02") {
+      console.error("DELETE /organizations/:id/members/:userId delete error:", error);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+    if (!data || data.length === 0) return res.status(404).json({ error: "Member not found" });
+
+    invalidateMembership(id!, userId!);
+    return res.json({ ok: true });
+  } catch (err) {
+    console.error("DELETE /organizations/:id/members/:userId unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
@@ -0,0 +1,152 @@
+import { AddressInfo } from "net";
+import { Server } from "http";
+import express from "express";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import productsRouter from "./products";
+import { toRole } from "../utils/roles";
+
+/**
+ * Products routes with a custom (data-driven) role: can_post_products + can_post_product_images,
+ * without can_get_all_products. Database, authentication and Shopify are replaced by in-memory fakes.
+ */
+const state = vi.hoisted(() => ({
+  user: null as any,
+  products: [] as Record<string, any>[],
+  shopifyPayloads: [] as any[],
+}));
+
+vi.mock("../supabase", () => {
+  // Minimal PostgREST-style builder over state.products (eq / is filters, insert + select + single)
+  function query(rows: Record<string, any>[]) {
+    let result = rows;
+    let inserted: Record<string, any> | null = null;
+    const builder: any = {
+      select: () => builder,
+      order: () => builder,
+      eq: (column: string, value: unknown) => {
+        result = result.filter((row) => row[column] === value);
+        return builder;
+      },
+      is: (column: string, value: unknown) => {
+        result = result.filter((row) => (row[column] ?? null) === value);
+        return builder;
+      },
+      insert: (row: Record<string, any>) => {
+        inserted = { id: `product-${state.products.length + 1}`, ...row };
+        state.products.push(inserted);
+        return builder;
+      },
+      maybeSingle: async () => ({ data: result[0] ?? null, error: null }),
+      single: async () => ({ data: inserted ?? result[0] ?? null, error: null }),
+      then: (resolve: (value: unknown) => unknown) => resolve({ data: result, error: null }),
+    };
+    return builder;
+  }
+  return { supabase: { from: () => query(state.products) } };
+});
+
+vi.mock("../middleware/authorizer", () => ({
+  authorizer: (req: any, _res: unknown, next: () => void) => {
+    req.user = state.user;
+    req.authMethod = "jwt";
+    next();
+  },
+  isUserSession: (req: any) => req.authMethod === "jwt" || req.authMethod === "cookie",
+}));
+
+vi.mock("../utils/organizations", () => ({
+  shopifyClientFor: async () => ({
+    post: async ({ data }: { data: any }) => {
+      state.shopifyPayloads.push(data);
+      return { body: { product: { id: 1000 + state.shopifyPayloads.length, ...data.product } } };
+    },
+  }),
+}));
+
+const catalogEditor = toRole({
+  name: "CATALOG_EDITOR",
+  role_permissions: [{ permission: "can_post_products" }, { permission: "can_post_product_images" }],
+});
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use("/products", productsRouter);
+  server = app.listen(0, "127.0.0.1");
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  vi.spyOn(console, "debug").mockImplementation(() => {});
+  state.user = { id: "editor-1", role: catalogEditor, roleName: catalogEditor.name, organizationId: null };
+  state.shopifyPayloads = [];
+  state.products = [
+    { id: "product-own", shopify_id: "1", organization_id: null, created_by: "editor-1", sales_count: 0 },
+    { id: "product-other", shopify_id: "2", organization_id: null, created_by: "someone-else", sales_count: 0 },
+  ];
+});
+
+describe("custom role with can_post_product_images but not can_get_all_products", () => {
+  it("creates its own products with an image", async () => {
+    const res = await fetch(`${baseUrl}/products`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ name: "Mug", price: 12, image: "https://cdn.example.com/mug.png" }),
+    });
+
+    expect(res.status).toBe(201);
+    const body = await res.json();
+    expect(body.product.created_by).toBe("editor-1");
+    expect(state.shopifyPayloads[0].product.images).toEqual([{ src: "https://cdn.example.com/mug.png" }]);
+  });
+
+  it("reads its own product", async () => {
+    const res = await fetch(`${baseUrl}/products/product-own`);
+    expect(res.status).toBe(200);
+    expect((await res.json()).product.id).toBe("product-own");
+  });
+
+  it("gets 404 on another user's product", async () => {
+    const res = await fetch(`${baseUrl}/products/product-other`);
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({ error: "Product not found" });
+  });
+
+  it("lists only its own products", async () => {
+    const res = await fetch(`${baseUrl}/products`);
+    expect(res.status).toBe(200);
+    const { products } = await res.json();
+    expect(products.map((p: any) => p.id)).toEqual(["product-own"]);
+  });
+
+  it("lists every product once the role has can_get_all_products", async () => {
+    state.user.role = toRole({
+      name: "CATALOG_EDITOR",
+      role_permissions: [...catalogEditor.permissions, "can_get_all_products"].map((permission) => ({ permission })),
+    });
+
+    const res = await fetch(`${baseUrl}/products`);
+    const { products } = await res.json();
+    expect(products.map((p: any) => p.id).sort()).toEqual(["product-other", "product-own"]);
+  });
+
+  it("cannot attach images once can_post_product_images is removed", async () => {
+    state.user.role = toRole({ name: "CATALOG_EDITOR", role_permissions: [{ permission: "can_post_products" }] });
+
+    const res = await fetch(`${baseUrl}/products`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ name: "Mug", price: 12, image: "https://cdn.example.com/mug.png" }),
+    });
+
+    expect(res.status).toBe(403);
+    expect(state.shopifyPayloads).toHaveLength(0);
+  });
+});
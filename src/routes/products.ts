@@ -1,23 +1,28 @@
 import express, { Router, Request, Response } from "express";
 import multer from "multer";
-import { getRestClient } from "../shopify";
 import { supabase } from "../supabase";
 import { createProductSchema } from "../zod-schemas/product";
 import { authorizer } from "../middleware/authorizer";
-import { requirePermission } from "../middleware/permissions";
+import { authorize, principalOf } from "../middleware/authorize";
+import { evaluatePolicy, isAllowed } from "../utils/policies";
+import { shopifyClientFor } from "../utils/organizations";
 
 /**
- * products routes
+ * products routes (authorization: policies in utils/policies.ts)
  *
- * - GET /products        : admin => all products, otherwise only products created by the authenticated user
+ * - GET /products        : can_get_all_products => all products, otherwise only products created by the authenticated user
  * - GET /products/my     : explicit per-user list
+ * - GET /products/:id    : a product created by the authenticated user (can_get_all_products => any product)
  * - POST /products       : create product (JSON or multipart/form-data)
  *
+ * Products belong to the request's organization (req.user.organizationId, see utils/organizations.ts) and are
+ * created in its Shopify shop; without organization, the store from the environment (organization_id = null).
+ *
  * This file accepts:
  * - JSON with image (image: URL) OR image_base64 (data URI or raw base64) in body
  * - multipart/form-data with file field `image`
  *
- * Images (file or image_base64 or image URL) are allowed ONLY for users with roleName === "PREMIUM"
+ * Images (file or image_base64 or image URL) are allowed ONLY for roles with can_post_product_images (product:attach_image)
  */
 
 // Multer in-memory storage for file uploads (multipart)
@@ -36,6 +41,27 @@ const upload = multer({
 
 const router = Router();
 
+const PRODUCT_COLUMNS = "id, shopify_id, organization_id, created_by, sales_count, metadata, created_at";
+
+/**
+ * Products of the organization (null = products outside any organization)
+ */
+function productsOf(organizationId: string | null) {
+  const query = supabase.from("products").select(PRODUCT_COLUMNS);
+  return organizationId ? query.eq("organization_id", organizationId) : query.is("organization_id", null);
+}
+
+/**
+ * Resource loader for authorize(): product by :id, null if unknown (organization checked by the policy)
+ */
+async function loadProduct(req: Request) {
+  const { data, error } = await supabase.from("products").select(PRODUCT_COLUMNS).eq("id", req.params.id).maybeSingle();
+  // invalid_text_representation: malformed id
+  if (error && error.code === "22P02") return null;
+  if (error) throw error;
+  return data;
+}
+
 // Route-level JSON parser with increased limit so clients can send base64 in JSON
 // Note: If you also have app.use(express.json({ limit: '1mb' })) globally, ensure it does not reject large JSON
 router.use(express.json({ limit: "25mb" }));
@@ -43,28 +69,16 @@ router.use(express.json({ limit: "25mb" }));
 /**
  * GET /products
  */
-router.get("/", authorizer, async (req: Request, res: Response) => {
+router.get("/", authorizer, authorize("product:list"), async (req: Request, res: Response) => {
   try {
     const user = (req as any).user;
-    if (!user) return res.status(401).json({ error: "Unauthorized" });
 
-    const roleName = user.role?.name ?? user.roleName ?? null;
-
-    let query;
-    if (roleName === "ADMIN") {
-      query = supabase
-        .from("products")
-        .select("id, shopify_id, created_by, sales_count, metadata, created_at")
-        .order("created_at", { ascending: false });
-    } else {
-      query = supabase
-        .from("products")
-        .select("id, shopify_id, created_by, sales_count, metadata, created_at")
-        .eq("created_by", user.id)
-        .order("created_at", { ascending: false });
+    let query = productsOf(user.organizationId ?? null);
+    if (!isAllowed("product:list_all", principalOf(req)!)) {
+      query = query.eq("created_by", user.id);
     }
 
-    const { data, error } = await query;
+    const { data, error } = await query.order("created_at", { ascending: false });
     if (error) {
       console.error("GET /products supabase error:", error);
       return res.status(500).json({ error: "Internal server error" });
@@ -80,14 +94,11 @@ router.get("/", authorizer, async (req: Request, res: Response) => {
 /**
  * GET /products/my
  */
-router.get("/my", authorizer, async (req: Request, res: Response) => {
+router.get("/my", authorizer, authorize("product:list"), async (req: Request, res: Response) => {
   try {
     const user = (req as any).user;
-    if (!user) return res.status(401).json({ error: "Unauthorized" });
 
-    const { data, error } = await supabase
-      .from("products")
-      .select("id, shopify_id, created_by, sales_count, metadata, created_at")
+    const { data, error } = await productsOf(user.organizationId ?? null)
       .eq("created_by", user.id)
       .order("created_at", { ascending: false });
 
@@ -105,18 +116,15 @@ router.get("/my", authorizer, async (req: Request, res: Response) => {
 
 /**
  * GET /products/my-bestsellers
- * - Protected: authorizer + requirePermission("can_get_my_bestsellers")
+ * - Protected: authorizer + authorize("product:read_bestsellers")
  * - Returns products created by the authenticated user, ordered by sales_count desc
  * - Note: sales_count is updated by the webhook; if webhook isn't functioning values may be stale.
  */
-router.get("/my-bestsellers", authorizer, requirePermission("can_get_my_bestsellers"), async (req: Request, res: Response) => {
+router.get("/my-bestsellers", authorizer, authorize("product:read_bestsellers"), async (req: Request, res: Response) => {
   try {
     const user = (req as any).user;
-    if (!user) return res.status(401).json({ error: "Unauthorized" });
 
-    const { data, error } = await supabase
-      .from("products")
-      .select("id, shopify_id, created_by, sales_count, metadata, created_at")
+    const { data, error } = await productsOf(user.organizationId ?? null)
       .eq("created_by", user.id)
       .order("sales_count", { ascending: false })
       .order("created_at", { ascending: false }); // tie-breaker
@@ -133,6 +141,14 @@ router.get("/my-bestsellers", authorizer, requirePermission("can_get_my_bestsell
   }
 });
 
+/**
+ * GET /products/:id
+ * - 404 for unknown products and for products of other users (unless the caller may list all products)
+ */
+router.get("/:id", authorizer, authorize("product:read", loadProduct), (req: Request, res: Response) => {
+  return res.json({ product: (req as any).resource });
+});
+
 /**
  * POST /products
  *
@@ -141,13 +157,13 @@ router.get("/my-bestsellers", authorizer, requirePermission("can_get_my_bestsell
  * - multipart/form-data: fields name, price and file field 'image'
  *
  * Permissions:
- * - require can_post_products
- * - images (file or image URL or image_base64) allowed ONLY for PREMIUM users
+ * - policy product:create (can_post_products)
+ * - images (file or image URL or image_base64): policy product:attach_image (can_post_product_images)
  */
 router.post(
   "/",
   authorizer,
-  requirePermission("can_post_products"),
+  authorize("product:create"),
   // Dispatch multer only for multipart/form-data requests
   async (req: Request, res: Response, next) => {
     const contentType = (req.headers["content-type"] || "").toString();
@@ -235,18 +251,18 @@ router.post(
     const user = (req as any).user;
     if (!user || !user.id) return res.status(401).json({ error: "Unauthorized" });
 
-    // Enforce PREMIUM-only image rule
-    const roleName = user.role?.name ?? (user.roleName as string | undefined) ?? null;
+    // Images need their own permission (can_post_product_images)
     const imagePresent = Boolean(fileBuffer) || imageUrlProvided || imageBase64Provided;
 
     if (imagePresent) {
-      if (roleName !== "PREMIUM") {
-        return res.status(403).json({ error: "Forbidden: requires PREMIUM access to include an image" });
+      const decision = evaluatePolicy("product:attach_image", principalOf(req)!);
+      if (!decision.allowed) {
+        return res.status(decision.status).json({ error: decision.reason });
       }
     }
 
     try {
-      const client = getRestClient();
+      const client = await shopifyClientFor(user.organizationId ?? null);
 
       const productPayload: any = {
         product: {
@@ -294,9 +310,10 @@ router.post(
         .insert({
           shopify_id: shopifyId,
           created_by: user.id,
+          organization_id: user.organizationId ?? null,
           metadata: createdProduct,
         })
-        .select("id, shopify_id, created_by, sales_count, metadata, created_at")
+        .select(PRODUCT_COLUMNS)
         .single();
 
       if (insertError) {
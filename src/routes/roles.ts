@@ -0,0 +1,222 @@
+import { Router } from "express";
+import { authorizer, isUserSession } from "../middleware/authorizer";
+import { PERMISSIONS, PERMISSION_KEYS, requirePermission } from "../middleware/permissions";
+import { validateBody } from "../middleware/validate";
+import { supabase } from "../supabase";
+import {
+  createRoleSchema,
+  updateRoleSchema,
+  setRolePermissionsSchema,
+  CreateRoleBody,
+  UpdateRoleBody,
+  SetRolePermissionsBody,
+} from "../zod-schemas/role";
+import { listRoles, loadRole, setRolePermissions } from "../utils/roles";
+import { invalidateRole } from "../utils/principalCache";
+
+/**
+ * Role management (data-driven RBAC, see utils/roles.ts)
+ *
+ * Every route: admin user session + can_manage_roles.
+ */
+const router = Router();
+
+// Roles the application itself relies on (signup assigns USER)
+const BUILT_IN_ROLES = new Set(["USER", "ADMIN"]);
+
+router.use(authorizer, requirePermission("can_manage_roles"), (req, res, next) => {
+  if (!isUserSession(req)) {
+    return res.status(403).json({ error: "Must be authenticated via user session to manage roles" });
+  }
+  return next();
+});
+
+/**
+ * Role settings present in the body (undefined = unchanged)
+ */
+function roleSettings(body: UpdateRoleBody | CreateRoleBody) {
+  const settings: Record<string, unknown> = {};
+  for (const key of [
+    "description",
+    "requires_2fa",
+    "restricted_until_verified",
+    "api_requests_per_minute",
+    "api_daily_quota",
+  ] as const) {
+    if (body[key] !== undefined) settings[key] = body[key];
+  }
+  return settings;
+}
+
+/**
+ * GET /roles/permissions
+ * - permission registry (every permission a role can be granted)
+ */
+router.get("/permissions", (_req, res) => {
+  return res.json({
+    permissions: PERMISSION_KEYS.map((name) => ({ name, description: PERMISSIONS[name] })),
+  });
+});
+
+/**
+ * GET /roles
+ */
+router.get("/", async (_req, res) => {
+  try {
+    return res.json({ roles: await listRoles() });
+  } catch (err) {
+    console.error("GET /roles unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * GET /roles/:name
+ */
+router.get("/:name", async (req, res) => {
+  try {
+    const role = await loadRole(req.params.name);
+    if (!role) return res.status(404).json({ error: "Role not found" });
+    return res.json({ role });
+  } catch (err) {
+    console.error("GET /roles/:name unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * POST /roles
+ * - { name, permissions: [...], description?, requires_2fa?, restricted_until_verified?, api limits? }
+ */
+router.post("/", validateBody(createRoleSchema), async (req, res) => {
+  const body = req.body as CreateRoleBody;
+
+  try {
+    const { error: insertError } = await supabase.from("roles").insert({ name: body.name, ...roleSettings(body) });
+    if (insertError) {
+      // unique_violation
+      if ((insertError as any).code === "23505") {
+        return res.status(409).json({ error: "Role already exists" });
+      }
+      console.error("POST /roles insert error:", insertError);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+
+    await setRolePermissions(body.name, body.permissions);
+    return res.status(201).json({ role: await loadRole(body.name) });
+  } catch (err) {
+    console.error("POST /roles unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * PATCH /roles/:name
+ * - role settings (description, requires_2fa, restricted_until_verified, api limits); takes effect on the next request
+ */
+router.patch("/:name", validateBody(updateRoleSchema), async (req, res) => {
+  const body = req.body as UpdateRoleBody;
+  const settings = roleSettings(body);
+  if (Object.keys(settings).length === 0) {
+    return res.status(400).json({ error: "Nothing to update" });
+  }
+
+  try {
+    const { data, error } = await supabase.from("roles").update(settings).eq("name", body.name).select("name");
+    if (error) {
+      console.error("PATCH /roles/:name update error:", error);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+    if (!data || data.length === 0) return res.status(404).json({ error: "Role not found" });
+
+    invalidateRole(body.name);
+    return res.json({ role: await loadRole(body.name) });
+  } catch (err) {
+    console.error("PATCH /roles/:name unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * PUT /roles/:name/permissions
+ * - { permissions: [...] } replaces the role's permission set
+ * - an admin cannot remove can_manage_roles from their own role (lockout)
+ */
+router.put("/:name/permissions", validateBody(setRolePermissionsSchema), async (req, res) => {
+  const admin = (req as any).user;
+  const { name, permissions } = req.body as SetRolePermissionsBody;
+
+  if (name === admin.roleName && !permissions.includes("can_manage_roles")) {
+    return res.status(400).json({ error: "Cannot remove can_manage_roles from your own role" });
+  }
+
+  try {
+    const existing = await loadRole(name);
+    if (!existing) return res.status(404).json({ error: "Role not found" });
+
+    await setRolePermissions(name, permissions);
+    return res.json({ role: await loadRole(name) });
+  } catch (err) {
+    console.error("PUT /roles/:name/permissions unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * DELETE /roles/:name
+ * - built-in roles and roles still assigned to users or organization members cannot be deleted
+ */
+router.delete("/:name", async (req, res) => {
+  const name = req.params.name;
+  if (BUILT_IN_ROLES.has(name)) {
+    return res.status(400).json({ error: "Built-in roles cannot be deleted" });
+  }
+
+  try {
+    const { count, error: countError } = await supabase
+      .from("users")
+      .select("id", { count: "exact", head: true })
+      .eq("role", name);
+
+    if (countError) {
+      console.error("DELETE /roles/:name count error:", countError);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+    if ((count ?? 0) > 0) {
+      return res.status(409).json({ error: "Role is still assigned to users" });
+    }
+
+    const { count: memberCount, error: memberCountError } = await supabase
+      .from("organization_members")
+      .select("user_id", { count: "exact", head: true })
+      .eq("role", name);
+
+    if (memberCountError) {
+      console.error("DELETE /roles/:name member count error:", memberCountError);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+    if ((memberCount ?? 0) > 0) {
+      return res.status(409).json({ error: "Role is still assigned to organization members" });
+    }
+
+    // role_permissions rows go with it (ON DELETE CASCADE)
+    const { data, error } = await supabase.from("roles").delete().eq("name", name).select("name");
+    // foreign_key_violation: assigned in the meantime
+    if (error && error.code === "23503") {
+      return res.status(409).json({ error: "Role is still assigned" });
+    }
+    if (error) {
+      console.error("DELETE /roles/:name delete error:", error);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+    if (!data || data.length === 0) return res.status(404).json({ error: "Role not found" });
+
+    invalidateRole(name);
+    return res.json({ ok: true });
+  } catch (err) {
+    console.error("DELETE /roles/:name unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
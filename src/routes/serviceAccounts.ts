@@ -0,0 +1,401 @@
+import { Router } from "express";
+import { authorizer, isUserSession } from "../middleware/authorizer";
+import { requirePermission } from "../middleware/permissions";
+import { validateBody } from "../middleware/validate";
+import { supabase } from "../supabase";
+import {
+  createServiceAccountSchema,
+  updateServiceAccountSchema,
+  CreateServiceAccountBody,
+  UpdateServiceAccountBody,
+} from "../zod-schemas/serviceAccount";
+import { createApiKeySchema, CreateApiKeyBody, rotateApiKeySchema, RotateApiKeyBody } from "../zod-schemas/apiKey";
+import { API_KEY_ROTATION_GRACE_SECONDS, isPast } from "../utils/apiKeyLifecycle";
+import { createApiKeyForUser, listApiKeysForUser, revokeAllApiKeys, revokeApiKey, rotateApiKey } from "../utils/apiKeys";
+import { invalidateUser } from "../utils/principalCache";
+import { canAssignRole, loadRole } from "../utils/roles";
+import { getMembership } from "../utils/organizations";
+
+/**
+ * Service accounts
+ *
+ * Non-login principals (users rows with principal_type = 'service') that own API keys, so integrations
+ * do not depend on an employee's account. They have their own role, no email / password, and show up
+ * in authorizer as req.user.principalType = "service_account" (products they create record them as created_by).
+ *
+ * Every route: admin user session + can_manage_service_accounts. Callers can only assign roles (and mint keys
+ * for accounts with roles) whose permissions they have themselves, unless they have can_manage_roles.
+ */
+const router = Router();
+
+const SERVICE_ACCOUNT_COLUMNS = "id, name, description, role, created_by, created_at, disabled_at";
+
+router.use(authorizer, requirePermission("can_manage_service_accounts"), (req, res, next) => {
+  if (!isUserSession(req)) {
+    return res.status(403).json({ error: "Must be authenticated via user session to manage service accounts" });
+  }
+  return next();
+});
+
+/**
+ * Role check for assigning a role to a service account:
+ * 400 "Unknown role", 403 when it has permissions the caller lacks (see canAssignRole), null if assignable
+ */
+async function roleAssignmentError(callerRole: any, roleName: string) {
+  const role = await loadRole(roleName);
+  if (!role) return { status: 400, error: "Unknown role" };
+  if (!canAssignRole(callerRole, role)) {
+    return { status: 403, error: "Forbidden: role has permissions you do not have" };
+  }
+  return null;
+}
+
+async function findServiceAccount(id: string) {
+  const { data, error } = await supabase
+    .from("users")
+    .select(SERVICE_ACCOUNT_COLUMNS)
+    .eq("id", id)
+    .eq("principal_type", "service")
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+async function updateServiceAccount(id: string, update: Record<string, unknown>) {
+  const { data, error } = await supabase
+    .from("users")
+    .update(update)
+    .eq("id", id)
+    .eq("principal_type", "service")
+    .is("deleted_at", null)
+    .select(SERVICE_ACCOUNT_COLUMNS);
+
+  if (error) throw error;
+  invalidateUser(id);
+  return data?.[0] ?? null;
+}
+
+/**
+ * GET /service-accounts
+ */
+router.get("/", async (_req, res) => {
+  try {
+    const { data, error } = await supabase
+      .from("users")
+      .select(SERVICE_ACCOUNT_COLUMNS)
+      .eq("principal_type", "service")
+      .is("deleted_at", null)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("GET /service-accounts supabase error:", error);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+    return res.json({ serviceAccounts: data ?? [] });
+  } catch (err) {
+    console.error("GET /service-accounts unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * POST /service-accounts
+ * - { name, role, description? }
+ */
+router.post("/", validateBody(createServiceAccountSchema), async (req, res) => {
+  const admin = (req as any).user;
+  const { name, role, description } = req.body as CreateServiceAccountBody;
+
+  try {
+    const roleError = await roleAssignmentError(admin.role, role);
+    if (roleError) return res.status(roleError.status).json({ error: roleError.error });
+
+    const { data, error } = await supabase
+      .from("users")
+      .insert({
+        principal_type: "service",
+        name,
+        description: description ?? null,
+        role,
+        email: null,
+        password: null,
+        // no mailbox to verify: role restrictions for unverified accounts do not apply
+        email_verified_at: new Date().toISOString(),
+        created_by: admin.id,
+      })
+      .select(SERVICE_ACCOUNT_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error("POST /service-accounts insert error:", error);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+    return res.status(201).json({ serviceAccount: data });
+  } catch (err) {
+    console.error("POST /service-accounts unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * GET /service-accounts/:id
+ */
+router.get("/:id", async (req, res) => {
+  try {
+    const serviceAccount = await findServiceAccount(req.params.id);
+    if (!serviceAccount) return res.status(404).json({ error: "Service account not found" });
+    return res.json({ serviceAccount });
+  } catch (err) {
+    console.error("GET /service-accounts/:id unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * PATCH /service-accounts/:id
+ * - { name?, role?, description? }; a role change applies to the account's keys on their next request
+ * - both the account's current role and the new one must be roles the caller could assign
+ */
+router.patch("/:id", validateBody(updateServiceAccountSchema), async (req, res) => {
+  const admin = (req as any).user;
+  const { name, role, description } = req.body as UpdateServiceAccountBody;
+
+  try {
+    const serviceAccount = await findServiceAccount(req.params.id!);
+    if (!serviceAccount) return res.status(404).json({ error: "Service account not found" });
+
+    const roleError = await roleAssignmentError(admin.role, serviceAccount.role);
+    if (roleError) return res.status(roleError.status).json({ error: roleError.error });
+
+    if (role !== undefined) {
+      const newRoleError = await roleAssignmentError(admin.role, role);
+      if (newRoleError) return res.status(newRoleError.status).json({ error: newRoleError.error });
+    }
+
+    const update: Record<string, unknown> = {};
+    if (name !== undefined) update.name = name;
+    if (role !== undefined) update.role = role;
+    if (description !== undefined) update.description = description;
+
+    const updated = await updateServiceAccount(serviceAccount.id, update);
+    if (!updated) return res.status(404).json({ error: "Service account not found" });
+    return res.json({ serviceAccount: updated });
+  } catch (err) {
+    console.error("PATCH /service-accounts/:id unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * POST /service-accounts/:id/disable
+ * - every key of the account is rejected by authorizer until it is enabled again
+ * - as for every change to an existing account, its role must be one the caller could assign
+ */
+router.post("/:id/disable", async (req, res) => {
+  const admin = (req as any).user;
+  try {
+    const serviceAccount = await findServiceAccount(req.params.id!);
+    if (!serviceAccount) return res.status(404).json({ error: "Service account not found" });
+
+    const roleError = await roleAssignmentError(admin.role, serviceAccount.role);
+    if (roleError) return res.status(roleError.status).json({ error: roleError.error });
+
+    const updated = await updateServiceAccount(serviceAccount.id, { disabled_at: new Date().toISOString() });
+    if (!updated) return res.status(404).json({ error: "Service account not found" });
+    return res.json({ serviceAccount: updated });
+  } catch (err) {
+    console.error("POST /service-accounts/:id/disable unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * POST /service-accounts/:id/enable
+ */
+router.post("/:id/enable", async (req, res) => {
+  const admin = (req as any).user;
+  try {
+    const serviceAccount = await findServiceAccount(req.params.id!);
+    if (!serviceAccount) return res.status(404).json({ error: "Service account not found" });
+
+    const roleError = await roleAssignmentError(admin.role, serviceAccount.role);
+    if (roleError) return res.status(roleError.status).json({ error: roleError.error });
+
+    const updated = await updateServiceAccount(serviceAccount.id, { disabled_at: null });
+    if (!updated) return res.status(404).json({ error: "Service account not found" });
+    return res.json({ serviceAccount: updated });
+  } catch (err) {
+    console.error("POST /service-accounts/:id/enable unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * DELETE /service-accounts/:id
+ * - revokes every key; the row is kept as a tombstone (products.created_by still references it)
+ */
+router.delete("/:id", async (req, res) => {
+  const admin = (req as any).user;
+  try {
+    const serviceAccount = await findServiceAccount(req.params.id!);
+    if (!serviceAccount) return res.status(404).json({ error: "Service account not found" });
+
+    const roleError = await roleAssignmentError(admin.role, serviceAccount.role);
+    if (roleError) return res.status(roleError.status).json({ error: roleError.error });
+
+    const deleted = await updateServiceAccount(serviceAccount.id, {
+      deleted_at: new Date().toISOString(),
+      disabled_at: new Date().toISOString(),
+    });
+    if (!deleted) return res.status(404).json({ error: "Service account not found" });
+
+    await revokeAllApiKeys(serviceAccount.id);
+    return res.json({ ok: true });
+  } catch (err) {
+    console.error("DELETE /service-accounts/:id unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * GET /service-accounts/:id/api-keys
+ */
+router.get("/:id/api-keys", async (req, res) => {
+  try {
+    const serviceAccount = await findServiceAccount(req.params.id);
+    if (!serviceAccount) return res.status(404).json({ error: "Service account not found" });
+
+    return res.json({ apiKeys: await listApiKeysForUser(serviceAccount.id) });
+  } catch (err) {
+    console.error("GET /service-accounts/:id/api-keys unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * POST /service-accounts/:id/api-keys
+ * - same options as POST /api (expiry, limits, allowed_ips, require_signature), but scopes are required:
+ *   service account keys never carry the account's full role
+ * - the account's role must be one the caller could assign
+ * - Created with X-Organization-Id: the key is bound to that organization (the account must be a member)
+ * - Returns the raw key and its request signing secret only once.
+ */
+router.post("/:id/api-keys", validateBody(createApiKeySchema), async (req, res) => {
+  const admin = (req as any).user;
+  const body = req.body as CreateApiKeyBody;
+
+  if (!body.scopes) {
+    return res.status(400).json({ error: "scopes is required for service account keys" });
+  }
+
+  try {
+    const serviceAccount = await findServiceAccount(req.params.id!);
+    if (!serviceAccount) return res.status(404).json({ error: "Service account not found" });
+
+    const roleError = await roleAssignmentError(admin.role, serviceAccount.role);
+    if (roleError) return res.status(roleError.status).json({ error: roleError.error });
+
+    const organizationId = admin.organizationId ?? null;
+    if (organizationId && !(await getMembership(organizationId, serviceAccount.id))) {
+      return res.status(400).json({ error: "Service account is not a member of this organization" });
+    }
+
+    // Ensure name unique for this service account
+    const { data: existing, error: existingErr } = await supabase
+      .from("api_keys")
+      .select("id")
+      .eq("user_id", serviceAccount.id)
+      .eq("name", body.name)
+      .limit(1);
+
+    if (existingErr) {
+      console.error("service-accounts api-keys: supabase select error:", existingErr);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+    if (existing && existing.length > 0) {
+      return res.status(409).json({ error: "API key name already exists" });
+    }
+
+    const created = await createApiKeyForUser(serviceAccount.id, {
+      name: body.name,
+      scopes: body.scopes,
+      expiresAt: body.expires_at,
+      rateLimitPerMinute: body.rate_limit_per_minute,
+      dailyQuota: body.daily_quota,
+      allowedIps: body.allowed_ips,
+      requireSignature: body.require_signature,
+      organizationId,
+    });
+    return res.status(201).json(created);
+  } catch (err) {
+    console.error("POST /service-accounts/:id/api-keys unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * POST /service-accounts/:id/api-keys/:keyId/rotate
+ * - same grace period semantics as POST /api/:id/rotate
+ * - the account's role must be one the caller could assign (the new key is returned to the caller)
+ */
+router.post("/:id/api-keys/:keyId/rotate", validateBody(rotateApiKeySchema), async (req, res) => {
+  const admin = (req as any).user;
+  const { gracePeriodSeconds } = req.body as RotateApiKeyBody;
+
+  try {
+    const serviceAccount = await findServiceAccount(req.params.id!);
+    if (!serviceAccount) return res.status(404).json({ error: "Service account not found" });
+
+    const roleError = await roleAssignmentError(admin.role, serviceAccount.role);
+    if (roleError) return res.status(roleError.status).json({ error: roleError.error });
+
+    const { data: keyRow, error: selectErr } = await supabase
+      .from("api_keys")
+      .select("id, user_id, token_hash, hashed_key, revoked, expires_at")
+      .match({ id: req.params.keyId, user_id: serviceAccount.id })
+      .maybeSingle();
+
+    if (selectErr) {
+      console.error("service-accounts rotate: supabase select error:", selectErr);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+    if (!keyRow) return res.status(404).json({ error: "API key not found" });
+    if (keyRow.revoked) return res.status(409).json({ error: "API key revoked" });
+    if (isPast(keyRow.expires_at)) return res.status(409).json({ error: "API key expired" });
+
+    const rotated = await rotateApiKey(keyRow, gracePeriodSeconds ?? API_KEY_ROTATION_GRACE_SECONDS);
+    if (!rotated) {
+      return res.status(409).json({ error: "API key was rotated concurrently, retry" });
+    }
+    return res.json(rotated);
+  } catch (err) {
+    console.error("POST /service-accounts/:id/api-keys/:keyId/rotate unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * DELETE /service-accounts/:id/api-keys/:keyId
+ * - Soft revoke (set revoked=true)
+ */
+router.delete("/:id/api-keys/:keyId", async (req, res) => {
+  const admin = (req as any).user;
+  try {
+    const serviceAccount = await findServiceAccount(req.params.id!);
+    if (!serviceAccount) return res.status(404).json({ error: "Service account not found" });
+
+    const roleError = await roleAssignmentError(admin.role, serviceAccount.role);
+    if (roleError) return res.status(roleError.status).json({ error: roleError.error });
+
+    const revoked = await revokeApiKey(serviceAccount.id, req.params.keyId);
+    if (!revoked) return res.status(404).json({ error: "API key not found" });
+    return res.json({ ok: true });
+  } catch (err) {
+    console.error("DELETE /service-accounts/:id/api-keys/:keyId unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
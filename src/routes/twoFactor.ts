@@ -0,0 +1,226 @@
+import { Router } from "express";
+import bcrypt from "bcrypt";
+import { supabase } from "../supabase";
+import { validateBody } from "../middleware/validate";
+import { authorizer, allowTwoFactorEnrollment, isUserSession } from "../middleware/authorizer";
+import { totpCodeSchema, disableTwoFactorSchema } from "../zod-schemas/twoFactor";
+import { generateTotpSecret, otpauthUri } from "../utils/totp";
+import { invalidateUser } from "../utils/principalCache";
+import { claimCredentialAttempt, clientIp, credentialSucceeded, sendTooManyAttempts } from "../utils/throttle";
+import {
+  checkTotpCode,
+  verifySecondFactor,
+  regenerateRecoveryCodes,
+  countRemainingRecoveryCodes,
+  disableTwoFactor,
+} from "../utils/twoFactor";
+
+const router = Router();
+
+const TOTP_ISSUER = process.env.TOTP_ISSUER ?? "prjCyberA3";
+
+/**
+ * Every 2FA management route: user session only, and reachable before enrollment
+ * (a role with requires_2fa must be able to enroll).
+ */
+router.use(allowTwoFactorEnrollment, authorizer, (req, res, next) => {
+  if (!isUserSession(req)) {
+    return res.status(403).json({ error: "Must be authenticated via user session to manage two-factor authentication" });
+  }
+  return next();
+});
+
+/**
+ * Load the 2FA columns of the authenticated user
+ */
+async function loadTwoFactorState(userId: string) {
+  const { data, error } = await supabase
+    .from("users")
+    .select("id, email, password, totp_secret, totp_enabled_at, totp_last_step")
+    .eq("id", userId)
+    .single();
+
+  if (error || !data) throw error ?? new Error("User not found");
+  return data;
+}
+
+/**
+ * Code / password checks share the per-user budget of /auth/login/2fa
+ */
+function throttleKeyFor(userId: string) {
+  return `2fa:user:${userId}`;
+}
+
+/**
+ * GET /auth/2fa
+ * - 2FA status of the authenticated user
+ */
+router.get("/", async (req, res) => {
+  const user = (req as any).user;
+  try {
+    const state = await loadTwoFactorState(user.id);
+    const enabled = Boolean(state.totp_enabled_at);
+    return res.json({
+      enabled,
+      enabled_at: state.totp_enabled_at,
+      required: Boolean(user.role?.requires_2fa),
+      recoveryCodesRemaining: enabled ? await countRemainingRecoveryCodes(user.id) : 0,
+    });
+  } catch (err) {
+    console.error("GET /auth/2fa unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * POST /auth/2fa/setup
+ * - Generate a new (pending) TOTP secret and return it with its otpauth:// URI
+ * - 2FA is only active after /auth/2fa/confirm
+ */
+router.post("/setup", async (req, res) => {
+  const user = (req as any).user;
+  try {
+    const state = await loadTwoFactorState(user.id);
+    if (state.totp_enabled_at) {
+      return res.status(409).json({ error: "Two-factor authentication already enabled" });
+    }
+
+    const secret = generateTotpSecret();
+    const { error: updateError } = await supabase
+      .from("users")
+      .update({ totp_secret: secret, totp_last_step: null })
+      .eq("id", user.id);
+
+    if (updateError) {
+      console.error("2fa setup: supabase update error:", updateError);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+
+    return res.json({ secret, otpauthUri: otpauthUri(secret, state.email, TOTP_ISSUER) });
+  } catch (err) {
+    console.error("POST /auth/2fa/setup unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * POST /auth/2fa/confirm
+ * - Prove possession of the pending secret with a valid code; enables 2FA (failures are throttled)
+ * - Returns the recovery codes (shown only once)
+ */
+router.post("/confirm", validateBody(totpCodeSchema), async (req, res) => {
+  const user = (req as any).user;
+  const { code } = req.body as { code: string };
+  const throttleKey = throttleKeyFor(user.id);
+  const ip = clientIp(req);
+  try {
+    const state = await loadTwoFactorState(user.id);
+    if (state.totp_enabled_at) {
+      return res.status(409).json({ error: "Two-factor authentication already enabled" });
+    }
+    if (!state.totp_secret) {
+      return res.status(400).json({ error: "Call /auth/2fa/setup first" });
+    }
+
+    const waitMs = await claimCredentialAttempt(throttleKey, ip);
+    if (waitMs > 0) {
+      return sendTooManyAttempts(res, waitMs);
+    }
+
+    if (!(await checkTotpCode(state, code))) {
+      return res.status(400).json({ error: "Invalid code" });
+    }
+    await credentialSucceeded(throttleKey, ip);
+
+    const { error: updateError } = await supabase
+      .from("users")
+      .update({ totp_enabled_at: new Date().toISOString() })
+      .eq("id", user.id);
+
+    if (updateError) {
+      console.error("2fa confirm: supabase update error:", updateError);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+    invalidateUser(user.id);
+
+    const recoveryCodes = await regenerateRecoveryCodes(user.id);
+    return res.json({ ok: true, recoveryCodes });
+  } catch (err) {
+    console.error("POST /auth/2fa/confirm unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * POST /auth/2fa/recovery-codes
+ * - Replace all recovery codes; requires a current TOTP code (failures are throttled)
+ */
+router.post("/recovery-codes", validateBody(totpCodeSchema), async (req, res) => {
+  const user = (req as any).user;
+  const { code } = req.body as { code: string };
+  const throttleKey = throttleKeyFor(user.id);
+  const ip = clientIp(req);
+  try {
+    const state = await loadTwoFactorState(user.id);
+    if (!state.totp_enabled_at) {
+      return res.status(400).json({ error: "Two-factor authentication is not enabled" });
+    }
+
+    const waitMs = await claimCredentialAttempt(throttleKey, ip);
+    if (waitMs > 0) {
+      return sendTooManyAttempts(res, waitMs);
+    }
+
+    if (!(await checkTotpCode(state, code))) {
+      return res.status(400).json({ error: "Invalid code" });
+    }
+    await credentialSucceeded(throttleKey, ip);
+
+    const recoveryCodes = await regenerateRecoveryCodes(user.id);
+    return res.json({ recoveryCodes });
+  } catch (err) {
+    console.error("POST /auth/2fa/recovery-codes unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * POST /auth/2fa/disable
+ * - Requires the password and a second factor (code or recovery code); failures are throttled
+ * - Refused when the user's role requires 2FA
+ */
+router.post("/disable", validateBody(disableTwoFactorSchema), async (req, res) => {
+  const user = (req as any).user;
+  const { password, code, recoveryCode } = req.body as { password: string; code?: string; recoveryCode?: string };
+  const throttleKey = throttleKeyFor(user.id);
+  const ip = clientIp(req);
+  try {
+    if (user.role?.requires_2fa) {
+      return res.status(403).json({ error: "Forbidden: two-factor authentication required for this role" });
+    }
+
+    const state = await loadTwoFactorState(user.id);
+    if (!state.totp_enabled_at) {
+      return res.status(400).json({ error: "Two-factor authentication is not enabled" });
+    }
+
+    const waitMs = await claimCredentialAttempt(throttleKey, ip);
+    if (waitMs > 0) {
+      return sendTooManyAttempts(res, waitMs);
+    }
+
+    const passwordOk = await bcrypt.compare(password, state.password);
+    if (!passwordOk || !(await verifySecondFactor(state, { code, recoveryCode }))) {
+      return res.status(400).json({ error: "Invalid password or code" });
+    }
+    await credentialSucceeded(throttleKey, ip);
+
+    await disableTwoFactor(user.id);
+    return res.json({ ok: true });
+  } catch (err) {
+    console.error("POST /auth/2fa/disable unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
\ No newline at end of file
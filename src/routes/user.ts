@@ -1,7 +1,24 @@
 import { Router } from "express";
-import { authorizer } from "../middleware/authorizer";
+import bcrypt from "bcrypt";
+import { authorizer, isUserSession } from "../middleware/authorizer";
 import { requirePermission } from "../middleware/permissions";
+import { validateBody } from "../middleware/validate";
 import { supabase } from "../supabase";
+import {
+  updateMyUserSchema,
+  UpdateMyUserBody,
+  deleteMyUserSchema,
+  DeleteMyUserBody,
+  listUsersQuerySchema,
+  updateUserRoleSchema,
+  ListUsersQuery,
+} from "../zod-schemas/user";
+import { sendEmailChangeVerification } from "../utils/emailVerification";
+import { exportAccountData, deleteAccount } from "../utils/account";
+import { revokeAllSessions } from "../utils/sessions";
+import { invalidateUser } from "../utils/principalCache";
+import { canAssignRole, loadRole } from "../utils/roles";
+import { claimCredentialAttempt, clientIp, credentialSucceeded, sendTooManyAttempts } from "../utils/throttle";
 
 const router = Router();
 
@@ -16,27 +33,395 @@ router.get("/my-user", authorizer, requirePermission("can_get_my_user"), async (
   return res.json({ user });
 });
 
+/**
+ * PATCH /my-user
+ * - user session only
+ * - name is updated right away
+ * - email is stored as pending_email and only applied once confirmed from the new address
+ * - invalidate_api_keys_on_password_change: per-user override of API_KEYS_INVALIDATED_BY_PASSWORD_CHANGE
+ */
+router.patch("/my-user", authorizer, validateBody(updateMyUserSchema), async (req, res) => {
+  const user = (req as any).user;
+  if (!user) return res.status(401).json({ error: "Unauthorized" });
+  if (!isUserSession(req)) {
+    return res.status(403).json({ error: "Must be authenticated via user session to update the profile" });
+  }
+
+  const { name, email, invalidate_api_keys_on_password_change } = req.body as UpdateMyUserBody;
+  const emailLower = email?.toLowerCase();
+
+  try {
+    const update: Record<string, unknown> = {};
+    if (name !== undefined) update.name = name;
+    if (invalidate_api_keys_on_password_change !== undefined) {
+      update.invalidate_api_keys_on_password_change = invalidate_api_keys_on_password_change;
+    }
+
+    const emailChanging = emailLower !== undefined && emailLower !== user.email;
+    if (emailChanging) {
+      const { data: existing, error: selectError } = await supabase
+        .from("users")
+        .select("id")
+        .eq("email", emailLower)
+        .limit(1);
+
+      if (selectError) {
+        console.error("PATCH /my-user supabase select error:", selectError);
+        return res.status(500).json({ error: "Internal server error" });
+      }
+      if (existing && existing.length > 0) {
+        return res.status(409).json({ error: "Email already in use" });
+      }
+      update.pending_email = emailLower;
+    }
+
+    if (Object.keys(update).length > 0) {
+      const { error: updateError } = await supabase.from("users").update(update).eq("id", user.id);
+      if (updateError) {
+        console.error("PATCH /my-user supabase update error:", updateError);
+        return res.status(500).json({ error: "Internal server error" });
+      }
+      invalidateUser(user.id);
+    }
+
+    if (emailChanging) {
+      await sendEmailChangeVerification({ id: user.id, name: name ?? user.name, email: user.email }, emailLower!);
+    }
+
+    const { data, error } = await supabase
+      .from("users")
+      .select("id, name, email, pending_email, created_at, email_verified_at, invalidate_api_keys_on_password_change")
+      .eq("id", user.id)
+      .single();
+
+    if (error) {
+      console.error("PATCH /my-user supabase select error:", error);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+    return res.json({ user: data, emailVerificationSent: emailChanging });
+  } catch (err) {
+    console.error("PATCH /my-user unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Accounts without a usable password: DELETE /my-user requires a session signed in at most this long ago
+const DELETE_REAUTH_MAX_AGE_MS = Number(process.env.ACCOUNT_DELETION_REAUTH_MINUTES ?? 5) * 60_000;
+
+/**
+ * DELETE /my-user
+ * - user session only
+ * - { password }: password re-check (throttled like the login), required for every account with a password
+ * - {}: only for accounts without a usable password (created through OIDC, users.has_password = false);
+ *   the current session must have been signed in within ACCOUNT_DELETION_REAUTH_MINUTES (default 5)
+ * - revokes every API key and session, detaches products, anonymizes the account
+ */
+router.delete("/my-user", authorizer, validateBody(deleteMyUserSchema), async (req, res) => {
+  const user = (req as any).user;
+  if (!user) return res.status(401).json({ error: "Unauthorized" });
+  if (!isUserSession(req)) {
+    return res.status(403).json({ error: "Must be authenticated via user session to delete the account" });
+  }
+
+  const { password } = req.body as DeleteMyUserBody;
+  const throttleKey = `delete-account:user:${user.id}`;
+  const ip = clientIp(req);
+
+  try {
+    const { data, error: selectError } = await supabase
+      .from("users")
+      .select("password, has_password")
+      .eq("id", user.id)
+      .single();
+
+    if (selectError || !data) {
+      console.error("DELETE /my-user supabase select error:", selectError);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+
+    if (!data.has_password) {
+      const { data: session, error: sessionError } = await supabase
+        .from("user_sessions")
+        .select("created_at")
+        .eq("id", user.sessionId)
+        .single();
+
+      if (sessionError || !session) {
+        console.error("DELETE /my-user supabase session select error:", sessionError);
+        return res.status(500).json({ error: "Internal server error" });
+      }
+      if (Date.now() - new Date(session.created_at).getTime() > DELETE_REAUTH_MAX_AGE_MS) {
+        return res.status(403).json({ error: "Recent sign-in required: sign in again to delete the account" });
+      }
+
+      await deleteAccount(user.id);
+      return res.json({ ok: true });
+    }
+
+    if (password === undefined) {
+      return res.status(400).json({ error: "password is required" });
+    }
+
+    const waitMs = await claimCredentialAttempt(throttleKey, ip);
+    if (waitMs > 0) return sendTooManyAttempts(res, waitMs);
+
+    const match = await bcrypt.compare(password, data.password);
+    if (!match) {
+      return res.status(400).json({ error: "Password is incorrect" });
+    }
+    await credentialSucceeded(throttleKey, ip);
+
+    await deleteAccount(user.id);
+    return res.json({ ok: true });
+  } catch (err) {
+    console.error("DELETE /my-user unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * GET /my-user/export
+ * - authentifié, permission can_get_my_user requise
+ * - JSON archive of the user's data (GDPR): profile, API key metadata, products, sales, identities, sessions
+ */
+router.get("/my-user/export", authorizer, requirePermission("can_get_my_user"), async (req, res) => {
+  const user = (req as any).user;
+  if (!user) return res.status(401).json({ error: "Unauthorized" });
+
+  try {
+    const archive = await exportAccountData(user.id);
+    res.setHeader("Content-Disposition", `attachment; filename="user-${user.id}-export.json"`);
+    return res.json(archive);
+  } catch (err) {
+    console.error("GET /my-user/export unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+const ADMIN_USER_COLUMNS = "id, name, email, role, created_at, email_verified_at, totp_enabled_at, disabled_at, password_changed_at";
+
+/**
+ * Escape a user-supplied term for a PostgREST ilike filter inside .or(...)
+ */
+function ilikeTerm(value: string) {
+  return value.replace(/[,()]/g, " ").replace(/[%_\\]/g, (c) => `\\${c}`);
+}
+
 /**
  * GET /users
+ * - human accounts only (service accounts: /service-accounts)
  * - authentifié
  * - permission can_get_users requise
+ * - paginated: ?page=1&pageSize=20 (max 100)
+ * - filters: search (name/email contains), role, email (exact), created_after, created_before, disabled
  */
-router.get("/users", authorizer, requirePermission("can_get_users"), async (req, res) => {
+router.get("/users", authorizer, requirePermission("can_get_users"), validateBody(listUsersQuerySchema), async (req, res) => {
+  const q = req.body as ListUsersQuery;
+
   try {
-    const { data, error } = await supabase
+    let query = supabase
       .from("users")
-      .select("id, name, email, created_at")
-      .order("created_at", { ascending: true });
+      .select(ADMIN_USER_COLUMNS, { count: "exact" })
+      .eq("principal_type", "user")
+      .is("deleted_at", null);
+
+    if (q.search) {
+      const term = ilikeTerm(q.search);
+      query = query.or(`email.ilike.%${term}%,name.ilike.%${term}%`);
+    }
+    if (q.role) query = query.eq("role", q.role);
+    if (q.email) query = query.eq("email", q.email.toLowerCase());
+    if (q.created_after) query = query.gte("created_at", q.created_after);
+    if (q.created_before) query = query.lte("created_at", q.created_before);
+    if (q.disabled === "true") query = query.not("disabled_at", "is", null);
+    if (q.disabled === "false") query = query.is("disabled_at", null);
+
+    const from = (q.page - 1) * q.pageSize;
+    const { data, error, count } = await query
+      .order("created_at", { ascending: true })
+      .range(from, from + q.pageSize - 1);
 
     if (error) {
       console.error("GET /users supabase error:", error);
       return res.status(500).json({ error: "Internal server error" });
     }
-    return res.json({ users: data });
+    return res.json({
+      users: data ?? [],
+      pagination: {
+        page: q.page,
+        pageSize: q.pageSize,
+        total: count ?? 0,
+        totalPages: Math.ceil((count ?? 0) / q.pageSize),
+      },
+    });
   } catch (err) {
     console.error("GET /users unexpected:", err);
     return res.status(500).json({ error: "Internal server error" });
   }
 });
 
+/**
+ * GET /users/:id
+ * - permission can_get_users requise
+ */
+router.get("/users/:id", authorizer, requirePermission("can_get_users"), async (req, res) => {
+  try {
+    const { data, error } = await supabase
+      .from("users")
+      .select(ADMIN_USER_COLUMNS)
+      .eq("id", req.params.id)
+      .eq("principal_type", "user")
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    // invalid_text_representation: malformed id
+    if (error && error.code === "22P02") return res.status(404).json({ error: "User not found" });
+    if (error) {
+      console.error("GET /users/:id supabase error:", error);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+    if (!data) return res.status(404).json({ error: "User not found" });
+    return res.json({ user: data });
+  } catch (err) {
+    console.error("GET /users/:id unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * Update a (non-deleted) user row and return it, null if it does not exist (or the id is malformed)
+ */
+async function updateUser(id: string, update: Record<string, unknown>) {
+  const { data, error } = await supabase
+    .from("users")
+    .update(update)
+    .eq("id", id)
+    .eq("principal_type", "user")
+    .is("deleted_at", null)
+    .select(ADMIN_USER_COLUMNS);
+
+  // invalid_text_representation: malformed id
+  if (error && error.code === "22P02") return null;
+  if (error) throw error;
+  invalidateUser(id);
+  return data?.[0] ?? null;
+}
+
+/**
+ * PATCH /users/:id
+ * - permission can_manage_user_roles requise
+ * - change the user's role (must exist in roles); takes effect on the next request
+ * - both the new role and the user's current role must be ones the caller could assign (see canAssignRole),
+ *   so a role manager can neither hand out nor take away ADMIN
+ */
+router.patch(
+  "/users/:id",
+  authorizer,
+  requirePermission("can_manage_user_roles"),
+  validateBody(updateUserRoleSchema),
+  async (req, res) => {
+    const admin = (req as any).user;
+    const { role } = req.body as { role: string };
+    const id = req.params.id!;
+
+    if (id === admin.id) {
+      return res.status(400).json({ error: "Cannot change your own role" });
+    }
+
+    try {
+      const roleRow = await loadRole(role);
+      if (!roleRow) return res.status(400).json({ error: "Unknown role" });
+      if (!canAssignRole(admin.role, roleRow)) {
+        return res.status(403).json({ error: "Forbidden: role has permissions you do not have" });
+      }
+
+      const { data: target, error: targetError } = await supabase
+        .from("users")
+        .select("role")
+        .eq("id", id)
+        .eq("principal_type", "user")
+        .is("deleted_at", null)
+        .maybeSingle();
+
+      // invalid_text_representation: malformed id
+      if (targetError && targetError.code !== "22P02") {
+        console.error("PATCH /users/:id users select error:", targetError);
+        return res.status(500).json({ error: "Internal server error" });
+      }
+      if (!target) return res.status(404).json({ error: "User not found" });
+
+      const currentRole = await loadRole(target.role);
+      if (currentRole && !canAssignRole(admin.role, currentRole)) {
+        return res.status(403).json({ error: "Forbidden: user's current role has permissions you do not have" });
+      }
+
+      const user = await updateUser(id, { role: roleRow.name });
+      if (!user) return res.status(404).json({ error: "User not found" });
+      return res.json({ user });
+    } catch (err) {
+      console.error("PATCH /users/:id unexpected:", err);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+/**
+ * POST /users/:id/disable
+ * - permission can_disable_users requise
+ * - disabled accounts are rejected by authorizer (JWT, cookie and API keys) and every login method;
+ *   their sessions are revoked
+ */
+router.post("/users/:id/disable", authorizer, requirePermission("can_disable_users"), async (req, res) => {
+  const admin = (req as any).user;
+  const id = req.params.id!;
+  if (id === admin.id) {
+    return res.status(400).json({ error: "Cannot disable your own account" });
+  }
+
+  try {
+    const user = await updateUser(id, { disabled_at: new Date().toISOString() });
+    if (!user) return res.status(404).json({ error: "User not found" });
+
+    await revokeAllSessions(id);
+    return res.json({ user });
+  } catch (err) {
+    console.error("POST /users/:id/disable unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * POST /users/:id/enable
+ * - permission can_disable_users requise
+ */
+router.post("/users/:id/enable", authorizer, requirePermission("can_disable_users"), async (req, res) => {
+  try {
+    const user = await updateUser(req.params.id!, { disabled_at: null });
+    if (!user) return res.status(404).json({ error: "User not found" });
+    return res.json({ user });
+  } catch (err) {
+    console.error("POST /users/:id/enable unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * POST /users/:id/logout
+ * - permission can_force_logout_users requise
+ * - bumps password_changed_at (every JWT issued before is rejected) and revokes all sessions
+ */
+router.post("/users/:id/logout", authorizer, requirePermission("can_force_logout_users"), async (req, res) => {
+  const id = req.params.id!;
+  try {
+    const user = await updateUser(id, { password_changed_at: new Date().toISOString() });
+    if (!user) return res.status(404).json({ error: "User not found" });
+
+    await revokeAllSessions(id);
+    return res.json({ ok: true });
+  } catch (err) {
+    console.error("POST /users/:id/logout unexpected:", err);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -1,16 +1,27 @@
 import { Request, Response } from "express";
 import crypto from "crypto";
 import { supabase } from "../supabase";
+import { findOrganizationByShopDomain, normalizeShopDomain, webhookSecretFor } from "../utils/organizations";
 
 /**
  * Shopify order/create webhook handler.
  * - Requires raw Buffer body (express.raw middleware).
- * - Verifies X-Shopify-Hmac-Sha256 using SHOPIFY_WEBHOOK_SECRET (base64 HMAC SHA256).
+ * - Routed by X-Shopify-Shop-Domain: the organization owning that shop (its webhook secret, its products);
+ *   the store from the environment (SHOPIFY_SHOP) when the header is missing or names that store.
+ * - Verifies X-Shopify-Hmac-Sha256 using the organization's webhook secret, else SHOPIFY_WEBHOOK_SECRET (base64 HMAC SHA256).
  * - Aggregates product quantities from line_items and increments products.sales_count.
  */
 export default async function shopifySalesWebhookHandler(req: Request, res: Response) {
   try {
-    const secret = process.env.SHOPIFY_WEBHOOK_SECRET;
+    const shopDomain = req.headers["x-shopify-shop-domain"] as string | undefined;
+    const organization = shopDomain ? await findOrganizationByShopDomain(shopDomain) : null;
+    const envShop = process.env.SHOPIFY_SHOP ? normalizeShopDomain(process.env.SHOPIFY_SHOP) : null;
+    if (shopDomain && !organization && normalizeShopDomain(shopDomain) !== envShop) {
+      console.warn("Webhook from unknown shop", { shopDomain });
+      return res.status(404).send("Unknown shop");
+    }
+
+    const secret = webhookSecretFor(organization);
     if (!secret) {
       console.error("SHOPIFY_WEBHOOK_SECRET not set");
       return res.status(500).send("Webhook secret not configured");
@@ -67,8 +78,11 @@ export default async function shopifySalesWebhookHandler(req: Request, res: Resp
 
     const items = Array.from(counts.entries()).map(([shopify_id, qty]) => ({ shopify_id, qty }));
 
-    // Call Postgres function to update sales_count atomically (assumes function increment_product_sales exists)
-    const { error } = await supabase.rpc("increment_product_sales", { items });
+    // Call Postgres function to update sales_count atomically (assumes function increment_product_sales exists);
+    // organization shops only count their own products
+    const { error } = organization
+      ? await supabase.rpc("increment_organization_product_sales", { p_organization_id: organization.id, items })
+      : await supabase.rpc("increment_product_sales", { items });
 
     if (error) {
       console.error("increment_product_sales rpc error:", error);
@@ -0,0 +1,16 @@
+import { Router } from "express";
+import { getJwks } from "../utils/jwt";
+
+const router = Router();
+
+/**
+ * GET /.well-known/jwks.json
+ * - Public keys other services use to verify our JWTs (match on the token's kid header)
+ * - Includes retired keys that may still have valid tokens in circulation
+ */
+router.get("/jwks.json", (_req, res) => {
+  res.setHeader("Cache-Control", "public, max-age=300");
+  return res.json(getJwks());
+});
+
+export default router;
\ No newline at end of file
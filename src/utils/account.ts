@@ -0,0 +1,105 @@
+import crypto from "crypto";
+import bcrypt from "bcrypt";
+import { supabase } from "../supabase";
+import { listSessionsForUser, revokeAllSessions } from "./sessions";
+import { API_KEY_COLUMNS } from "./apiKeys";
+import { invalidateMembership, invalidateUser, invalidateUserApiKeys } from "./principalCache";
+
+/**
+ * Everything we hold about a user (GDPR access request), without secrets (hashes, TOTP secret).
+ */
+export async function exportAccountData(userId: string) {
+  const [profile, apiKeys, products, identities, sessions] = await Promise.all([
+    supabase
+      .from("users")
+      .select("id, name, email, pending_email, role, created_at, email_verified_at, password_changed_at, totp_enabled_at")
+      .eq("id", userId)
+      .single(),
+    supabase
+      .from("api_keys")
+      .select(API_KEY_COLUMNS)
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true }),
+    supabase
+      .from("products")
+      .select("id, shopify_id, sales_count, metadata, created_at")
+      .eq("created_by", userId)
+      .order("created_at", { ascending: true }),
+    supabase
+      .from("user_identities")
+      .select("id, provider, email, created_at, last_login_at")
+      .eq("user_id", userId),
+    listSessionsForUser(userId),
+  ]);
+
+  for (const result of [profile, apiKeys, products, identities]) {
+    if (result.error) throw result.error;
+  }
+
+  const productRows = products.data ?? [];
+  return {
+    exported_at: new Date().toISOString(),
+    profile: profile.data,
+    api_keys: apiKeys.data ?? [],
+    products: productRows,
+    sales: productRows.map((p: any) => ({ product_id: p.id, shopify_id: p.shopify_id, sales_count: p.sales_count })),
+    linked_identities: identities.data ?? [],
+    sessions,
+  };
+}
+
+/**
+ * Delete an account:
+ * - revoke every API key and session, drop linked identities / 2FA recovery codes / organization memberships
+ * - detach the user's products (kept in Shopify and for sales history, created_by = null)
+ * - anonymize the users row (kept as a tombstone: revoked api_keys still reference it)
+ */
+export async function deleteAccount(userId: string) {
+  const { error: keysError } = await supabase
+    .from("api_keys")
+    .update({ revoked: true, revoked_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .eq("revoked", false);
+  if (keysError) throw keysError;
+  invalidateUserApiKeys(userId);
+
+  await revokeAllSessions(userId);
+
+  const { error: identitiesError } = await supabase.from("user_identities").delete().eq("user_id", userId);
+  if (identitiesError) throw identitiesError;
+
+  const { error: codesError } = await supabase.from("user_recovery_codes").delete().eq("user_id", userId);
+  if (codesError) throw codesError;
+
+  const { data: memberships, error: membershipsError } = await supabase
+    .from("organization_members")
+    .delete()
+    .eq("user_id", userId)
+    .select("organization_id");
+  if (membershipsError) throw membershipsError;
+  for (const { organization_id } of memberships ?? []) invalidateMembership(organization_id, userId);
+
+  const { error: productsError } = await supabase.from("products").update({ created_by: null }).eq("created_by", userId);
+  if (productsError) throw productsError;
+
+  const now = new Date().toISOString();
+  const unusablePassword = await bcrypt.hash(crypto.randomBytes(32).toString("hex"), 12);
+  const { error: userError } = await supabase
+    .from("users")
+    .update({
+      name: "Deleted user",
+      email: `deleted+${userId}@invalid`,
+      pending_email: null,
+      password: unusablePassword,
+      password_changed_at: now,
+      totp_secret: null,
+      totp_enabled_at: null,
+      totp_last_step: null,
+      deleted_at: now,
+    })
+    .eq("id", userId);
+  if (userError) throw userError;
+  invalidateUser(userId);
+
+  return true;
+}
\ No newline at end of file
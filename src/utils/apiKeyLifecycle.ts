@@ -0,0 +1,40 @@
+/**
+ * API key expiry and rotation settings
+ *
+ *   API_KEY_ROTATION_GRACE_SECONDS  how long the previous secret keeps working after a rotation (default 24h)
+ *   API_KEY_EXPIRY_WARNING_DAYS     keys expiring within this window are flagged (default 7)
+ */
+export const API_KEY_ROTATION_GRACE_SECONDS = Number(process.env.API_KEY_ROTATION_GRACE_SECONDS ?? 24 * 60 * 60);
+export const API_KEY_MAX_ROTATION_GRACE_SECONDS = 7 * 24 * 60 * 60;
+const API_KEY_EXPIRY_WARNING_DAYS = Number(process.env.API_KEY_EXPIRY_WARNING_DAYS ?? 7);
+
+export const EXPIRY_WARNING_HEADER = "X-API-Key-Expiry-Warning";
+
+/**
+ * True when the key has an expiry date inside the warning window (already expired keys included)
+ */
+export function isExpiringSoon(expiresAt: string | null | undefined, now = Date.now()) {
+  if (!expiresAt) return false;
+  return new Date(expiresAt).getTime() - now <= API_KEY_EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000;
+}
+
+export function isPast(date: string | null | undefined, now = Date.now()) {
+  return Boolean(date) && new Date(date!).getTime() <= now;
+}
+
+/**
+ * Value of the expiry warning header for a key used in a request, null when nothing to warn about.
+ * usedPreviousSecret: the request authenticated with the pre-rotation secret (grace period).
+ */
+export function expiryWarning(
+  key: { expires_at: string | null; previous_key_expires_at: string | null },
+  usedPreviousSecret: boolean
+) {
+  if (usedPreviousSecret) {
+    return `rotated; this secret stops working at ${key.previous_key_expires_at}`;
+  }
+  if (isExpiringSoon(key.expires_at)) {
+    return `expires at ${key.expires_at}`;
+  }
+  return null;
+}
@@ -0,0 +1,35 @@
+import type { PermissionKey } from "../middleware/permissions";
+
+/**
+ * API key scopes -> role permissions they unlock.
+ * A scoped key gets the intersection of its owner's role and its scopes; a key created
+ * without scopes (scopes = null) keeps the owner's full role.
+ * products:read is also required by the product read policies (utils/policies.ts), even for own products.
+ */
+export const API_KEY_SCOPES = {
+  "products:read": ["can_get_all_products"],
+  "products:write": ["can_post_products", "can_post_product_images"],
+  "bestsellers:read": ["can_get_my_bestsellers"],
+  "users:read": ["can_get_my_user", "can_get_users"],
+  "users:admin": ["can_manage_user_roles", "can_disable_users", "can_force_logout_users"],
+} as const satisfies Record<string, readonly PermissionKey[]>;
+
+export type ApiKeyScope = keyof typeof API_KEY_SCOPES;
+
+export const API_KEY_SCOPE_NAMES = Object.keys(API_KEY_SCOPES) as [ApiKeyScope, ...ApiKeyScope[]];
+
+/**
+ * Copy of the role row where every permission not covered by the scopes is false
+ */
+export function scopeRole(role: any, scopes: string[] | null) {
+  if (!role || !scopes) return role;
+
+  const allowed = new Set<string>(
+    scopes.flatMap((scope) => (API_KEY_SCOPES as Record<string, readonly string[]>)[scope] ?? [])
+  );
+  const scoped: any = { ...role };
+  for (const key of Object.keys(scoped)) {
+    if (key.startsWith("can_") && !allowed.has(key)) scoped[key] = false;
+  }
+  return scoped;
+}
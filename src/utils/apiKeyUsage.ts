@@ -0,0 +1,153 @@
+import { Request, Response } from "express";
+import { supabase } from "../supabase";
+import { clientIp } from "./throttle";
+
+/**
+ * API key usage log
+ *
+ * Every API key request is recorded in api_key_usage (route, method, status, IP, user agent, latency).
+ * Events are buffered in memory and written in batches (one insert per flush, not one per request);
+ * api_keys.last_used_at is updated once per key and flush.
+ *
+ *   API_USAGE_FLUSH_MS          flush interval (default 5s)
+ *   API_USAGE_BATCH_SIZE        flush early once this many events are buffered (default 200)
+ *   API_USAGE_RETENTION_DAYS    older events are deleted (default 30, checked at most once an hour)
+ */
+export type ApiKeyUsageEvent = {
+  api_key_id: string;
+  user_id: string;
+  method: string;
+  route: string;
+  status: number;
+  ip: string;
+  user_agent: string | null;
+  latency_ms: number;
+  created_at: string;
+};
+
+const FLUSH_MS = Number(process.env.API_USAGE_FLUSH_MS ?? 5_000);
+const BATCH_SIZE = Number(process.env.API_USAGE_BATCH_SIZE ?? 200);
+const RETENTION_DAYS = Number(process.env.API_USAGE_RETENTION_DAYS ?? 30);
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+// Events kept when the database is unreachable; older ones are dropped
+const MAX_BUFFERED = 10_000;
+
+let buffer: ApiKeyUsageEvent[] = [];
+let timer: NodeJS.Timeout | null = null;
+let flushing: Promise<void> | null = null;
+let lastPruneAt = 0;
+
+/**
+ * Route template when Express matched one (/products/:id), the path otherwise
+ */
+function routeOf(req: Request) {
+  return req.route?.path ? `${req.baseUrl}${req.route.path}` : `${req.baseUrl}${req.path}`;
+}
+
+/**
+ * Log the request once the response is sent. Call as soon as the key is verified.
+ */
+export function trackApiKeyUsage(req: Request, res: Response, key: { id: string; user_id: string }) {
+  const startedAt = process.hrtime.bigint();
+  res.on("finish", () => {
+    enqueue({
+      api_key_id: key.id,
+      user_id: key.user_id,
+      method: req.method,
+      route: routeOf(req),
+      status: res.statusCode,
+      ip: clientIp(req),
+      user_agent: req.get("user-agent") ?? null,
+      latency_ms: Number((process.hrtime.bigint() - startedAt) / BigInt(1_000_000)),
+      created_at: new Date().toISOString(),
+    });
+  });
+}
+
+function enqueue(event: ApiKeyUsageEvent) {
+  buffer.push(event);
+  if (buffer.length > MAX_BUFFERED) buffer = buffer.slice(-MAX_BUFFERED);
+
+  if (buffer.length >= BATCH_SIZE) {
+    void flushApiKeyUsage();
+  } else if (!timer) {
+    timer = setTimeout(() => void flushApiKeyUsage(), FLUSH_MS);
+    timer.unref();
+  }
+}
+
+async function writeBatch(batch: ApiKeyUsageEvent[]) {
+  const { error } = await supabase.from("api_key_usage").insert(batch);
+  if (error) throw error;
+
+  const lastUsed = new Map<string, string>();
+  for (const event of batch) lastUsed.set(event.api_key_id, event.created_at);
+  await Promise.all(
+    [...lastUsed].map(([id, at]) => supabase.from("api_keys").update({ last_used_at: at }).eq("id", id))
+  );
+
+  if (Date.now() - lastPruneAt > PRUNE_INTERVAL_MS) {
+    lastPruneAt = Date.now();
+    const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const { error: pruneError } = await supabase.from("api_key_usage").delete().lt("created_at", cutoff);
+    if (pruneError) console.error("api key usage: retention cleanup failed", pruneError);
+  }
+}
+
+/**
+ * Write the buffered events now (also used on shutdown). Failed batches are put back in the buffer.
+ */
+export async function flushApiKeyUsage() {
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+  if (flushing) return flushing;
+  if (buffer.length === 0) return;
+
+  const batch = buffer;
+  buffer = [];
+  flushing = (async () => {
+    try {
+      await writeBatch(batch);
+    } catch (err) {
+      console.error("api key usage: failed to write batch, will retry", err);
+      buffer = [...batch, ...buffer].slice(-MAX_BUFFERED);
+    } finally {
+      flushing = null;
+      if (buffer.length > 0 && !timer) {
+        timer = setTimeout(() => void flushApiKeyUsage(), FLUSH_MS);
+        timer.unref();
+      }
+    }
+  })();
+  return flushing;
+}
+
+export type UsageBucket = "hour" | "day";
+
+/**
+ * Counts per time bucket (total, errors = status >= 400, average latency) and the latest calls of a key
+ */
+export async function getApiKeyUsage(apiKeyId: string, opts: { from: string; to: string; bucket: UsageBucket; recent: number }) {
+  const [buckets, recent] = await Promise.all([
+    supabase.rpc("api_key_usage_buckets", {
+      p_api_key_id: apiKeyId,
+      p_from: opts.from,
+      p_to: opts.to,
+      p_bucket: opts.bucket,
+    }),
+    supabase
+      .from("api_key_usage")
+      .select("created_at, method, route, status, ip, user_agent, latency_ms")
+      .eq("api_key_id", apiKeyId)
+      .gte("created_at", opts.from)
+      .lt("created_at", opts.to)
+      .order("created_at", { ascending: false })
+      .limit(opts.recent),
+  ]);
+
+  if (buckets.error) throw buckets.error;
+  if (recent.error) throw recent.error;
+  return { buckets: buckets.data ?? [], recent: recent.data ?? [] };
+}
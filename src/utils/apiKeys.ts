@@ -1,109 +1,330 @@
 import crypto from "crypto";
 import { supabase } from "../supabase";
+import { isPast } from "./apiKeyLifecycle";
+import { apiKeyCache, invalidateApiKeys, invalidateUserApiKeys } from "./principalCache";
 
-const API_KEY_SECRET = process.env.API_KEY_SECRET ?? process.env.JWT_SECRET ?? "change_this_in_prod";
+/**
+ * API keys
+ *
+ * Format: "pk_<id>.<token>" (the pk_ prefix lets secret scanners spot leaked keys).
+ * - <id> is api_keys.id: the row is fetched by primary key, no hash lookup
+ * - only HMAC-SHA256(API_KEY_SECRET, token) is stored (token_hash), compared in constant time
+ * - "<id>.<token>" keys issued before the prefix existed are accepted as well
+ *
+ * Legacy keys (bare 64-hex string, sha256 stored in hashed_key) are still accepted: on first use
+ * their hash is upgraded to the peppered HMAC (token_hash) and hashed_key is cleared.
+ */
+const API_KEY_PREFIX = "pk_";
+const API_KEY_SECRET = process.env.API_KEY_SECRET ?? process.env.JWT_SECRET;
+
+// Refuse to boot with a guessable pepper
+if (!API_KEY_SECRET || API_KEY_SECRET === "change_this_in_prod") {
+  throw new Error("API_KEY_SECRET (or JWT_SECRET) must be set to a non-default value in environment");
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const API_KEY_COLUMNS =
+  "id, name, organization_id, scopes, revoked, expires_at, rotated_at, previous_key_expires_at, rate_limit_per_minute, daily_quota, allowed_ips, require_signature, last_used_at, created_at";
+
+export type ApiKeyOptions = {
+  name: string;
+  scopes?: string[] | undefined;
+  expiresAt?: string | undefined;
+  rateLimitPerMinute?: number | undefined;
+  dailyQuota?: number | undefined;
+  allowedIps?: string[] | undefined;
+  requireSignature?: boolean | undefined;
+  /** Organization the key acts in (its owner must be a member), null / undefined = none */
+  organizationId?: string | null | undefined;
+};
+
+function hmacToken(token: string) {
+  return crypto.createHmac("sha256", API_KEY_SECRET!).update(token).digest("hex");
+}
+
+/**
+ * Secret for signed requests (see utils/requestSigning.ts), derived from the stored hash of the key secret:
+ * nothing more to store, and a rotation changes it along with the key.
+ */
+export function signingSecretFor(tokenHash: string) {
+  return crypto.createHmac("sha256", API_KEY_SECRET!).update(`request-signing:${tokenHash}`).digest("base64url");
+}
+
+function sha256(raw: string) {
+  return crypto.createHash("sha256").update(raw).digest("hex");
+}
+
+function safeEqualHex(stored: string | null | undefined, computed: string) {
+  if (!stored) return false;
+  const a = Buffer.from(stored, "hex");
+  const b = Buffer.from(computed, "hex");
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * "pk_<id>.<token>" / "<id>.<token>" -> { id, token }, null for anything else (legacy keys included)
+ */
+function parseApiKey(plaintextKey: string) {
+  const body = plaintextKey.startsWith(API_KEY_PREFIX) ? plaintextKey.slice(API_KEY_PREFIX.length) : plaintextKey;
+  const parts = body.split(".");
+  if (parts.length !== 2) return null;
+  const [id, token] = parts;
+  if (!id || !token || !UUID_RE.test(id)) return null;
+  return { id, token };
+}
+
+function newToken() {
+  return crypto.randomBytes(32).toString("hex"); // 64 hex chars
+}
 
 /**
  * Generate a new API key for a user.
- * Returns { id, key } where key is the plaintext API key that must be shown once to the user.
+ * Returns { apiKey, key, signingSecret }: the plaintext API key and request signing secret, shown once to the user.
  */
-export async function createApiKeyForUser(userId: string, name: string) {
-  // create random token part
-  const token = crypto.randomBytes(32).toString("hex"); // 64 hex chars
-  // compute HMAC-SHA256 with server secret
-  const tokenHash = crypto.createHmac("sha256", API_KEY_SECRET).update(token).digest("hex");
+export async function createApiKeyForUser(userId: string, opts: ApiKeyOptions) {
+  const id = crypto.randomUUID();
+  const token = newToken();
+  const tokenHash = hmacToken(token);
 
-  // insert row and return id + plaintext key = `${id}.${token}`
   const { data, error } = await supabase
     .from("api_keys")
     .insert({
-      name,
+      id,
+      name: opts.name,
       user_id: userId,
       token_hash: tokenHash,
+      scopes: opts.scopes ? [...new Set(opts.scopes)] : null,
+      expires_at: opts.expiresAt ?? null,
+      rate_limit_per_minute: opts.rateLimitPerMinute ?? null,
+      daily_quota: opts.dailyQuota ?? null,
+      allowed_ips: opts.allowedIps && opts.allowedIps.length > 0 ? [...new Set(opts.allowedIps)] : null,
+      require_signature: opts.requireSignature ?? false,
+      organization_id: opts.organizationId ?? null,
     })
-    .select("id, name, created_at")
+    .select(API_KEY_COLUMNS)
     .single();
 
   if (error || !data) {
     throw error ?? new Error("Failed to create api key");
   }
 
-  const id = (data as any).id as string;
-  const plaintextKey = `${id}.${token}`;
-  return {
-    id,
-    name: (data as any).name,
-    key: plaintextKey,
-    created_at: (data as any).created_at,
-  };
+  return { apiKey: data, key: `${API_KEY_PREFIX}${id}.${token}`, signingSecret: signingSecretFor(tokenHash) };
 }
 
 /**
- * List API keys for a user (sanitized: do NOT return token_hash)
+ * List API keys for a user (sanitized: do NOT return token_hash / hashed_key)
+ * organizationId: null = keys outside any organization, id = keys bound to it, undefined = every key
+ * (same matching as the api_key:update policy)
  */
-export async function listApiKeysForUser(userId: string) {
-  const { data, error } = await supabase
-    .from("api_keys")
-    .select("id, name, created_at, last_used_at, revoked")
-    .eq("user_id", userId)
-    .order("created_at", { ascending: false });
+export async function listApiKeysForUser(userId: string, organizationId?: string | null) {
+  let query = supabase.from("api_keys").select(API_KEY_COLUMNS).eq("user_id", userId);
+  if (organizationId !== undefined) {
+    query = organizationId ? query.eq("organization_id", organizationId) : query.is("organization_id", null);
+  }
+
+  const { data, error } = await query.order("created_at", { ascending: false });
 
   if (error) throw error;
   return data ?? [];
 }
 
 /**
- * Revoke / delete an API key by id for a user.
- * Only allow deletion if the row belongs to the user.
+ * Revoke an API key by id for a user.
+ * Only allowed if the row belongs to the user. Returns false if no such key exists.
  */
 export async function revokeApiKey(userId: string, apiKeyId: string) {
   // We mark revoked = true (safer) or you could delete the row.
-  const { error } = await supabase
+  const { data, error } = await supabase
     .from("api_keys")
-    .update({ revoked: true })
-    .match({ id: apiKeyId, user_id: userId });
+    .update({ revoked: true, revoked_at: new Date().toISOString() })
+    .match({ id: apiKeyId, user_id: userId })
+    .select("id");
 
   if (error) throw error;
-  return true;
+  invalidateApiKeys([apiKeyId]);
+  return (data ?? []).length > 0;
 }
 
 /**
- * Verify an API key plaintext.
- * Returns the user_id (string) if valid & not revoked, otherwise null.
- * Also updates last_used_at on success.
+ * Revoke every active API key of a user. Returns the number of keys revoked.
+ * organizationId: as listApiKeysForUser (undefined = every key of the user, e.g. password change)
  */
-export async function verifyApiKey(plaintextKey: string) {
-  // expected format: "<id>.<token>"
-  const parts = plaintextKey.split(".");
-  if (parts.length !== 2) return null;
-  const [id, token] = parts;
-  if (!id || !token) return null;
+export async function revokeAllApiKeys(userId: string, organizationId?: string | null) {
+  let query = supabase
+    .from("api_keys")
+    .update({ revoked: true, revoked_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .eq("revoked", false);
+  if (organizationId !== undefined) {
+    query = organizationId ? query.eq("organization_id", organizationId) : query.is("organization_id", null);
+  }
 
-  // fetch the row by id
-  const { data, error } = await supabase
+  const { data, error } = await query.select("id");
+
+  if (error) throw error;
+  invalidateUserApiKeys(userId);
+  return (data ?? []).length;
+}
+
+/**
+ * Whether the user's keys stop working after a password change:
+ * users.invalidate_api_keys_on_password_change, or API_KEYS_INVALIDATED_BY_PASSWORD_CHANGE when null.
+ */
+export function keysFollowPasswordChange(userRow: { invalidate_api_keys_on_password_change?: boolean | null }) {
+  return userRow.invalidate_api_keys_on_password_change ?? process.env.API_KEYS_INVALIDATED_BY_PASSWORD_CHANGE === "true";
+}
+
+/**
+ * True when the key's current secret was issued before the user's last password change
+ * (a rotation after the change issues a new secret, so the key works again).
+ */
+export function issuedBeforePasswordChange(
+  key: { created_at: string; rotated_at: string | null },
+  passwordChangedAt: string | null
+) {
+  if (!passwordChangedAt) return false;
+  return new Date(key.rotated_at ?? key.created_at).getTime() < new Date(passwordChangedAt).getTime();
+}
+
+/**
+ * Issue a new secret for an existing key (legacy keys come out in the pk_ format).
+ * The current secret keeps working for graceSeconds (0 = invalidated immediately).
+ * Returns null if the key was rotated concurrently.
+ */
+export async function rotateApiKey(
+  keyRow: { id: string; token_hash: string | null; hashed_key: string | null },
+  graceSeconds: number
+) {
+  const token = newToken();
+  const tokenHash = hmacToken(token);
+  const now = Date.now();
+
+  let query = supabase
     .from("api_keys")
-    .select("id, user_id, token_hash, revoked")
-    .eq("id", id)
-    .limit(1)
-    .single();
+    .update({
+      token_hash: tokenHash,
+      hashed_key: null,
+      previous_token_hash: graceSeconds > 0 ? keyRow.token_hash : null,
+      previous_hashed_key: graceSeconds > 0 ? keyRow.hashed_key : null,
+      previous_key_expires_at: graceSeconds > 0 ? new Date(now + graceSeconds * 1000).toISOString() : null,
+      rotated_at: new Date(now).toISOString(),
+    })
+    .eq("id", keyRow.id);
+
+  // Compare-and-swap on the current hash so two concurrent rotations cannot both succeed
+  query = keyRow.token_hash ? query.eq("token_hash", keyRow.token_hash) : query.is("token_hash", null);
+
+  const { data, error } = await query.select(API_KEY_COLUMNS);
+  if (error) throw error;
+  if (!data || data.length === 0) return null;
+  invalidateApiKeys([keyRow.id]);
+
+  return { apiKey: data[0], key: `${API_KEY_PREFIX}${keyRow.id}.${token}`, signingSecret: signingSecretFor(tokenHash) };
+}
 
-  if (error || !data) return null;
-  if ((data as any).revoked) return null;
+function matchesKeyHash(row: any, hash: string) {
+  return safeEqualHex(row.token_hash, hash) || safeEqualHex(row.previous_token_hash, hash);
+}
 
-  const storedHash = (data as any).token_hash as string;
-  const computedHash = crypto.createHmac("sha256", API_KEY_SECRET).update(token).digest("hex");
+const VERIFY_COLUMNS =
+  "id, user_id, organization_id, name, revoked, scopes, token_hash, hashed_key, previous_token_hash, previous_hashed_key, expires_at, previous_key_expires_at, rate_limit_per_minute, daily_quota, allowed_ips, require_signature, created_at, rotated_at";
 
-  // timing-safe compare
-  const a = Buffer.from(storedHash, "hex");
-  const b = Buffer.from(computedHash, "hex");
-  if (a.length !== b.length) return null;
-  if (!crypto.timingSafeEqual(a, b)) return null;
+/**
+ * Legacy key (bare hex, sha256 in hashed_key): indexed lookup on either hash, current or pre-rotation
+ */
+async function findLegacyKey(rawKey: string) {
+  const hmac = hmacToken(rawKey);
+  const sha = sha256(rawKey);
 
-  // update last_used_at
-  await supabase
+  const { data, error } = await supabase
     .from("api_keys")
-    .update({ last_used_at: new Date().toISOString() })
-    .eq("id", id);
+    .select(VERIFY_COLUMNS)
+    .or(`token_hash.eq.${hmac},hashed_key.eq.${sha},previous_token_hash.eq.${hmac},previous_hashed_key.eq.${sha}`)
+    .limit(1);
 
-  return (data as any).user_id as string;
-}
\ No newline at end of file
+  if (error) throw error;
+  const row = data?.[0];
+  if (!row) return null;
+
+  // Transparent upgrade: replace the bare sha256 with the peppered hash
+  if (row.hashed_key === sha) {
+    await supabase.from("api_keys").update({ token_hash: hmac, hashed_key: null }).eq("id", row.id).eq("hashed_key", sha);
+    row.token_hash = hmac;
+    row.hashed_key = null;
+  } else if (row.previous_hashed_key === sha) {
+    await supabase
+      .from("api_keys")
+      .update({ previous_token_hash: hmac, previous_hashed_key: null })
+      .eq("id", row.id)
+      .eq("previous_hashed_key", sha);
+    row.previous_token_hash = hmac;
+    row.previous_hashed_key = null;
+  }
+  return { row, hash: hmac };
+}
+
+/**
+ * Verify an API key plaintext (any supported format).
+ * Returns null for an unknown key / wrong secret, { status, error } for a known key that cannot be used
+ * (revoked, expired, pre-rotation secret past its grace period), otherwise the key row.
+ * usedPreviousSecret: the caller authenticated with the secret replaced by the last rotation.
+ */
+export async function verifyApiKey(
+  plaintextKey: string
+): Promise<{ key: any; usedPreviousSecret: boolean } | { status: number; error: string } | null> {
+  let row: any;
+  let hash: string;
+
+  const parsed = parseApiKey(plaintextKey);
+  if (parsed) {
+    const load = async () => {
+      const { data, error } = await supabase.from("api_keys").select(VERIFY_COLUMNS).eq("id", parsed.id).maybeSingle();
+      if (error) throw error;
+      return data;
+    };
+    hash = hmacToken(parsed.token);
+
+    const fromCache = apiKeyCache.has(parsed.id);
+    row = await apiKeyCache.get(parsed.id, load);
+    // Cached row older than a rotation made on another instance: check the new secret against the database
+    if (row && fromCache && !matchesKeyHash(row, hash)) {
+      apiKeyCache.delete(parsed.id);
+      row = await apiKeyCache.get(parsed.id, load);
+    }
+    if (!row) return null;
+  } else {
+    const found = await findLegacyKey(plaintextKey);
+    if (!found) return null;
+    ({ row, hash } = found);
+  }
+
+  if (!matchesKeyHash(row, hash)) return null;
+  const usedPreviousSecret = !safeEqualHex(row.token_hash, hash);
+
+  if (row.revoked) return { status: 403, error: "API key revoked" };
+  if (usedPreviousSecret && (!row.previous_key_expires_at || isPast(row.previous_key_expires_at))) {
+    return { status: 401, error: "API key rotated" };
+  }
+  if (isPast(row.expires_at)) return { status: 401, error: "API key expired" };
+
+  return { key: row, usedPreviousSecret };
+}
+
+/**
+ * Admin revocation of any keys: records who revoked each key and why (api_keys.revoked_* + api_key_audit_log,
+ * written together by the revoke_api_keys_as_admin function). Keys already revoked or unknown are skipped.
+ * Returns the keys revoked by this call.
+ */
+export async function revokeApiKeysAsAdmin(apiKeyIds: string[], actorId: string, reason: string) {
+  const { data, error } = await supabase.rpc("revoke_api_keys_as_admin", {
+    p_ids: apiKeyIds,
+    p_actor_id: actorId,
+    p_reason: reason,
+  });
+
+  if (error) throw error;
+  const revoked = (data ?? []) as { id: string; user_id: string; name: string }[];
+  invalidateApiKeys(revoked.map((key) => key.id));
+  return revoked;
+}
@@ -0,0 +1,98 @@
+import crypto from "crypto";
+import { Request, Response, CookieOptions } from "express";
+
+/**
+ * Browser sessions: the access token and refresh token live in HttpOnly cookies instead of localStorage.
+ *
+ * CSRF protection is a double-submit token bound to the session: csrf = HMAC(CSRF_SECRET, sessionId).
+ * It is set in a readable (non-HttpOnly) cookie; the dashboard echoes it in the X-CSRF-Token header
+ * on every mutating request, which a cross-site attacker cannot do.
+ *
+ * COOKIE_SECURE=false allows plain-http local development (Secure cookies are not sent over http).
+ */
+export const SESSION_COOKIE = "session";
+export const REFRESH_COOKIE = "refresh_token";
+export const CSRF_COOKIE = "csrf_token";
+export const CSRF_HEADER = "x-csrf-token";
+export const OIDC_STATE_COOKIE = "oidc_state";
+
+const COOKIE_SECURE = process.env.COOKIE_SECURE !== "false";
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS ?? 30);
+
+const CSRF_SECRET = process.env.CSRF_SECRET ?? crypto.randomBytes(32).toString("hex");
+if (!process.env.CSRF_SECRET) {
+  console.warn("CSRF_SECRET not set: using a per-process secret (cookie sessions will not work across instances)");
+}
+
+const baseOptions: CookieOptions = { secure: COOKIE_SECURE, sameSite: "strict" };
+
+export function csrfTokenFor(sessionId: string) {
+  return crypto.createHmac("sha256", CSRF_SECRET).update(sessionId).digest("base64url");
+}
+
+/**
+ * Set the session cookies from the tokens returned by createSession / rotateRefreshToken.
+ * Returns the CSRF token so it can also be given in the response body.
+ */
+export function setSessionCookies(res: Response, tokens: { token: string; refreshToken: string; expiresIn: number }) {
+  // refresh token is "<sessionId>.<secret>"
+  const sessionId = tokens.refreshToken.split(".")[0]!;
+  const csrfToken = csrfTokenFor(sessionId);
+  const refreshMaxAge = REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000;
+
+  res.cookie(SESSION_COOKIE, tokens.token, { ...baseOptions, httpOnly: true, path: "/", maxAge: tokens.expiresIn * 1000 });
+  res.cookie(REFRESH_COOKIE, tokens.refreshToken, { ...baseOptions, httpOnly: true, path: "/auth", maxAge: refreshMaxAge });
+  res.cookie(CSRF_COOKIE, csrfToken, { ...baseOptions, httpOnly: false, path: "/", maxAge: refreshMaxAge });
+  return csrfToken;
+}
+
+export function clearSessionCookies(res: Response) {
+  res.clearCookie(SESSION_COOKIE, { ...baseOptions, httpOnly: true, path: "/" });
+  res.clearCookie(REFRESH_COOKIE, { ...baseOptions, httpOnly: true, path: "/auth" });
+  res.clearCookie(CSRF_COOKIE, { ...baseOptions, path: "/" });
+}
+
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+/**
+ * Double-submit check for a cookie-authenticated request: header == cookie == HMAC(sessionId).
+ * Safe methods are not checked.
+ */
+export function checkCsrf(req: Request, sessionId: string) {
+  if (SAFE_METHODS.has(req.method)) return true;
+
+  const header = req.get(CSRF_HEADER);
+  const cookie = req.cookies?.[CSRF_COOKIE];
+  if (!header || !cookie || header !== cookie) return false;
+
+  const a = Buffer.from(header);
+  const b = Buffer.from(csrfTokenFor(sessionId));
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+/**
+ * OIDC login CSRF: the sha256 of the state is kept in an HttpOnly cookie when the flow starts and must match
+ * at the callback, so a callback URL started by someone else is refused. SameSite=Lax: the callback is a
+ * top-level redirect from the provider, which strict cookies do not follow.
+ */
+export function setOidcStateCookie(res: Response, stateHash: string, maxAgeMs: number) {
+  res.cookie(OIDC_STATE_COOKIE, stateHash, {
+    secure: COOKIE_SECURE,
+    sameSite: "lax",
+    httpOnly: true,
+    path: "/auth/oidc",
+    maxAge: maxAgeMs,
+  });
+}
+
+export function clearOidcStateCookie(res: Response) {
+  res.clearCookie(OIDC_STATE_COOKIE, { secure: COOKIE_SECURE, sameSite: "lax", httpOnly: true, path: "/auth/oidc" });
+}
+
+export function oidcStateCookieMatches(req: Request, stateHash: string) {
+  const cookie = req.cookies?.[OIDC_STATE_COOKIE];
+  if (typeof cookie !== "string") return false;
+
+  const a = Buffer.from(cookie);
+  const b = Buffer.from(stateHash);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
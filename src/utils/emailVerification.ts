@@ -0,0 +1,119 @@
+import { supabase } from "../supabase";
+import { signJwt, verifyJwt } from "./jwt";
+import { sendMail } from "../mailer";
+import { invalidateUser } from "./principalCache";
+
+const EMAIL_VERIFICATION_URL = process.env.EMAIL_VERIFICATION_URL ?? "http://localhost:3000/auth/verify-email";
+const EMAIL_VERIFICATION_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Mail a signed verification link to the user.
+ * The token embeds the address it was sent to, so it stops working if the email changes.
+ */
+export async function sendVerificationEmail(user: { id: string; name: string; email: string }) {
+  const token = signJwt(
+    { userId: user.id, email: user.email, typ: "email_verify" },
+    { expiresIn: EMAIL_VERIFICATION_TTL_SECONDS }
+  );
+  const link = `${EMAIL_VERIFICATION_URL}?token=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: user.email,
+    subject: "Verify your email address",
+    text:
+      `Hello ${user.name},\n\n` +
+      `Please confirm your email address by opening the link below (valid 24 hours).\n\n` +
+      `${link}\n\n` +
+      `If you did not create an account, you can ignore this email.`,
+  });
+}
+
+/**
+ * Email change: the new address only replaces users.email once this link is opened.
+ * The current address gets a notice so a hijacked session cannot silently take over the account.
+ */
+export async function sendEmailChangeVerification(user: { id: string; name: string; email: string }, newEmail: string) {
+  const token = signJwt(
+    { userId: user.id, email: newEmail, typ: "email_change" },
+    { expiresIn: EMAIL_VERIFICATION_TTL_SECONDS }
+  );
+  const link = `${EMAIL_VERIFICATION_URL}?token=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: newEmail,
+    subject: "Confirm your new email address",
+    text:
+      `Hello ${user.name},\n\n` +
+      `Open the link below (valid 24 hours) to use this address for your account.\n\n` +
+      `${link}\n\n` +
+      `If you did not ask for this, you can ignore this email.`,
+  });
+
+  await sendMail({
+    to: user.email,
+    subject: "Email change requested",
+    text:
+      `Hello ${user.name},\n\n` +
+      `A change of your account email to ${newEmail} was requested. It takes effect once confirmed from that address.\n\n` +
+      `If this was not you, change your password and log out all sessions.`,
+  });
+}
+
+/**
+ * Apply a confirmed email change (users.pending_email -> users.email, verified).
+ */
+async function confirmEmailChange(payload: { userId: string; email: string }) {
+  const { data, error } = await supabase
+    .from("users")
+    .update({ email: payload.email, pending_email: null, email_verified_at: new Date().toISOString() })
+    .eq("id", payload.userId)
+    .eq("pending_email", payload.email)
+    .select("id");
+
+  if (error) {
+    // unique violation: the address was taken by another account in the meantime
+    if ((error as any).code === "23505") return null;
+    throw error;
+  }
+  invalidateUser(payload.userId);
+  return data && data.length > 0 ? payload.userId : null;
+}
+
+/**
+ * Check a verification token and mark the user's email as verified (or apply a pending email change).
+ * Returns the user id, or null if the token is invalid/expired or no longer matches the user's email.
+ */
+export async function confirmEmailVerification(token: string) {
+  let payload: any;
+  try {
+    payload = verifyJwt(token);
+  } catch (err) {
+    return null;
+  }
+  if (!payload?.userId || !payload?.email) return null;
+  if (payload.typ === "email_change") return confirmEmailChange(payload);
+  if (payload.typ !== "email_verify") return null;
+
+  const { data, error } = await supabase
+    .from("users")
+    .update({ email_verified_at: new Date().toISOString() })
+    .eq("id", payload.userId)
+    .eq("email", payload.email)
+    .is("email_verified_at", null)
+    .select("id");
+
+  if (error) throw error;
+  invalidateUser(payload.userId);
+  if (data && data.length > 0) return payload.userId as string;
+
+  // Already verified with this same address: clicking the link twice is not an error
+  const { data: existing } = await supabase
+    .from("users")
+    .select("id")
+    .eq("id", payload.userId)
+    .eq("email", payload.email)
+    .not("email_verified_at", "is", null)
+    .limit(1);
+
+  return existing && existing.length > 0 ? (payload.userId as string) : null;
+}
\ No newline at end of file
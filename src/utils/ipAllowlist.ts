@@ -0,0 +1,60 @@
+import net from "net";
+
+/**
+ * IP / CIDR allowlists (API keys)
+ *
+ * Entries are single addresses ("203.0.113.7", "2001:db8::1") or CIDR ranges ("203.0.113.0/24", "2001:db8::/32").
+ * The client address is req.ip, so behind a load balancer TRUST_PROXY must be set (see trustProxySetting).
+ */
+
+/**
+ * Normalized form of an allowlist entry ("<address>/<prefix>"), null if invalid
+ */
+export function normalizeCidr(entry: string) {
+  const [address, prefixPart, ...rest] = entry.trim().split("/");
+  if (!address || rest.length > 0) return null;
+
+  const version = net.isIP(address);
+  if (version === 0) return null;
+  const maxPrefix = version === 4 ? 32 : 128;
+
+  if (prefixPart === undefined) return `${address.toLowerCase()}/${maxPrefix}`;
+  if (!/^\d{1,3}$/.test(prefixPart)) return null;
+  const prefix = Number(prefixPart);
+  if (prefix > maxPrefix) return null;
+  return `${address.toLowerCase()}/${prefix}`;
+}
+
+/**
+ * True when the allowlist is empty / unset (no restriction) or contains the address.
+ * IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) match IPv4 entries.
+ */
+export function isIpAllowed(ip: string, allowlist: string[] | null | undefined) {
+  if (!allowlist || allowlist.length === 0) return true;
+
+  const version = net.isIP(ip);
+  if (version === 0) return false;
+
+  const blockList = new net.BlockList();
+  for (const entry of allowlist) {
+    const normalized = normalizeCidr(entry);
+    if (!normalized) continue;
+    const [address, prefix] = normalized.split("/");
+    blockList.addSubnet(address!, Number(prefix), net.isIPv4(address!) ? "ipv4" : "ipv6");
+  }
+  return blockList.check(ip, version === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Express "trust proxy" value from TRUST_PROXY:
+ * unset/"false" -> false (use the socket address), "true" -> trust every hop,
+ * a number -> trust that many hops, otherwise a comma-separated list of proxy IPs/CIDRs or
+ * Express presets ("loopback", "uniquelocal").
+ * Without it X-Forwarded-For is ignored; with a too broad value clients can spoof their address.
+ */
+export function trustProxySetting(value = process.env.TRUST_PROXY): boolean | number | string[] {
+  if (!value || value === "false") return false;
+  if (value === "true") return true;
+  if (/^\d+$/.test(value)) return Number(value);
+  return value.split(",").map((v) => v.trim()).filter(Boolean);
+}
@@ -1,14 +1,158 @@
 import jwt from "jsonwebtoken";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import dotenv from "dotenv";
 
-const JWT_SECRET = process.env.JWT_SECRET || "change_this_in_prod";
+dotenv.config();
+
+/**
+ * Signing keys
+ *
+ * Asymmetric (preferred): JWT_KEYS_DIR holds PEM files named <kid>.private.pem / <kid>.public.pem.
+ * - RSA keys sign RS256, Ed25519 keys sign EdDSA; the kid goes in the token header.
+ * - JWT_ACTIVE_KID picks the signing key (needs a private key); optional if there is only one.
+ * - Rotation: add a new key pair and switch JWT_ACTIVE_KID; keep the old <kid>.public.pem (retired key)
+ *   until the last token it signed has expired, then delete it.
+ * - Public keys are published at /.well-known/jwks.json.
+ *
+ * Symmetric (legacy): JWT_SECRET, HS256. Still verified when set alongside keys, so tokens issued
+ * before switching to asymmetric keys keep working until they expire.
+ *
+ * Generate keys with e.g.:
+ *   openssl genpkey -algorithm ed25519 -out <kid>.private.pem && openssl pkey -in <kid>.private.pem -pubout -out <kid>.public.pem
+ */
+type JwtKey = {
+    kid: string;
+    alg: "RS256" | "EdDSA";
+    privateKey: crypto.KeyObject | null;
+    publicKey: crypto.KeyObject;
+};
+
+const DEFAULT_SECRET = "change_this_in_prod";
+
+function algorithmFor(key: crypto.KeyObject, kid: string): JwtKey["alg"] {
+    if (key.asymmetricKeyType === "rsa") return "RS256";
+    if (key.asymmetricKeyType === "ed25519") return "EdDSA";
+    throw new Error(`JWT key "${kid}": unsupported key type ${key.asymmetricKeyType} (use RSA or Ed25519)`);
+}
+
+function loadKeys(dir: string) {
+    const keys = new Map<string, JwtKey>();
+    for (const file of fs.readdirSync(dir)) {
+        const match = /^(.+)\.(private|public)\.pem$/.exec(file);
+        if (!match) continue;
+        const kid = match[1]!;
+        const pem = fs.readFileSync(path.join(dir, file), "utf8");
+
+        const existing = keys.get(kid);
+        if (match[2] === "private") {
+            const privateKey = crypto.createPrivateKey(pem);
+            const publicKey = crypto.createPublicKey(privateKey);
+            keys.set(kid, { kid, alg: algorithmFor(privateKey, kid), privateKey, publicKey });
+        } else if (!existing) {
+            const publicKey = crypto.createPublicKey(pem);
+            keys.set(kid, { kid, alg: algorithmFor(publicKey, kid), privateKey: null, publicKey });
+        }
+    }
+    return keys;
+}
+
+const KEYS = process.env.JWT_KEYS_DIR ? loadKeys(process.env.JWT_KEYS_DIR) : new Map<string, JwtKey>();
+const JWT_SECRET = process.env.JWT_SECRET;
+
+function resolveActiveKey() {
+    if (KEYS.size === 0) return null;
+    const signers = [...KEYS.values()].filter((k) => k.privateKey);
+    const activeKid = process.env.JWT_ACTIVE_KID;
+    if (activeKid) {
+        const key = KEYS.get(activeKid);
+        if (!key || !key.privateKey) {
+            throw new Error(`JWT_ACTIVE_KID "${activeKid}" has no private key in JWT_KEYS_DIR`);
+        }
+        return key;
+    }
+    if (signers.length !== 1) {
+        throw new Error("JWT_ACTIVE_KID must be set when JWT_KEYS_DIR does not contain exactly one private key");
+    }
+    return signers[0]!;
+}
+
+const ACTIVE_KEY = resolveActiveKey();
+
+// Refuse to boot with a guessable signing secret
+if (!ACTIVE_KEY && (!JWT_SECRET || JWT_SECRET === DEFAULT_SECRET)) {
+    throw new Error("JWT_KEYS_DIR or a non-default JWT_SECRET must be set in environment");
+}
+
+const base64url = (input: Buffer | string) => Buffer.from(input).toString("base64url");
+
+/**
+ * "15m", "7d", 900... -> seconds (the formats we pass as expiresIn)
+ */
+function toSeconds(value: string | number) {
+    if (typeof value === "number") return value;
+    const match = /^(\d+)\s*([smhd]?)$/.exec(value.trim());
+    if (!match) throw new Error(`Unsupported duration "${value}"`);
+    const unit = { "": 1, s: 1, m: 60, h: 3600, d: 86400 }[match[2] as "" | "s" | "m" | "h" | "d"];
+    return Number(match[1]) * unit;
+}
+
+/**
+ * jsonwebtoken has no EdDSA support: compact JWS signed with node's crypto (Ed25519).
+ */
+function signEdDsa(payload: object, key: JwtKey, opts?: jwt.SignOptions) {
+    const iat = Math.floor(Date.now() / 1000);
+    const claims: Record<string, unknown> = { ...payload, iat };
+    if (opts?.expiresIn !== undefined) claims.exp = iat + toSeconds(opts.expiresIn);
+    if (opts?.notBefore !== undefined) claims.nbf = iat + toSeconds(opts.notBefore);
+
+    const header = { alg: "EdDSA", typ: "JWT", kid: key.kid };
+    const signingInput = `${base64url(JSON.stringify(header))}.${base64url(JSON.stringify(claims))}`;
+    const signature = crypto.sign(null, Buffer.from(signingInput), key.privateKey!);
+    return `${signingInput}.${base64url(signature)}`;
+}
+
+function verifyEdDsa(token: string, key: JwtKey) {
+    const [header, payload, signature] = token.split(".");
+    if (!header || !payload || !signature) throw new jwt.JsonWebTokenError("jwt malformed");
+
+    const valid = crypto.verify(
+        null,
+        Buffer.from(`${header}.${payload}`),
+        key.publicKey,
+        Buffer.from(signature, "base64url")
+    );
+    if (!valid) throw new jwt.JsonWebTokenError("invalid signature");
+
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as jwt.JwtPayload;
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof claims.exp === "number" && now >= claims.exp) {
+        throw new jwt.TokenExpiredError("jwt expired", new Date(claims.exp * 1000));
+    }
+    if (typeof claims.nbf === "number" && now < claims.nbf) {
+        throw new jwt.NotBeforeError("jwt not active", new Date(claims.nbf * 1000));
+    }
+    return claims;
+}
 
 /**
  * Sign a JWT. jsonwebtoken automatically adds iat.
  * payload should include userId and any other non-sensitive data.
  * opts can include expiresIn, e.g. { expiresIn: "7d" }.
+ * Signs with the active asymmetric key when configured (kid header), HS256 otherwise.
  */
 export function signJwt(payload: object, opts?: jwt.SignOptions) {
-    return jwt.sign(payload, JWT_SECRET, {
+    if (ACTIVE_KEY) {
+        if (ACTIVE_KEY.alg === "EdDSA") return signEdDsa(payload, ACTIVE_KEY, opts);
+        return jwt.sign(payload, ACTIVE_KEY.privateKey!, {
+            ...(opts || {}),
+            algorithm: "RS256",
+            keyid: ACTIVE_KEY.kid,
+        });
+    }
+
+    return jwt.sign(payload, JWT_SECRET!, {
         algorithm: "HS256",
         ...(opts || {}),
     });
@@ -16,8 +160,35 @@ export function signJwt(payload: object, opts?: jwt.SignOptions) {
 
 /**
  * Verify a JWT and return the decoded payload (JwtPayload).
- * Throws if invalid/expired.
+ * Accepts tokens from any key still in JWT_KEYS_DIR (active or retired) and legacy HS256 tokens
+ * when JWT_SECRET is set. Throws if invalid/expired.
  */
 export function verifyJwt(token: string) {
-    return jwt.verify(token, JWT_SECRET) as jwt.JwtPayload;
+    const decoded = jwt.decode(token, { complete: true });
+    if (!decoded) throw new jwt.JsonWebTokenError("jwt malformed");
+
+    const kid = decoded.header.kid;
+    if (kid) {
+        const key = KEYS.get(kid);
+        if (!key || decoded.header.alg !== key.alg) throw new jwt.JsonWebTokenError("unknown signing key");
+        if (key.alg === "EdDSA") return verifyEdDsa(token, key);
+        return jwt.verify(token, key.publicKey, { algorithms: ["RS256"] }) as jwt.JwtPayload;
+    }
+
+    if (!JWT_SECRET || JWT_SECRET === DEFAULT_SECRET) throw new jwt.JsonWebTokenError("unknown signing key");
+    return jwt.verify(token, JWT_SECRET, { algorithms: ["HS256"] }) as jwt.JwtPayload;
+}
+
+/**
+ * Public verification keys as a JWKS document (active + retired keys; never the HS256 secret)
+ */
+export function getJwks() {
+    return {
+        keys: [...KEYS.values()].map((key) => ({
+            ...key.publicKey.export({ format: "jwk" }),
+            kid: key.kid,
+            alg: key.alg,
+            use: "sig",
+        })),
+    };
 }
\ No newline at end of file
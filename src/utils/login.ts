@@ -0,0 +1,77 @@
+import { Request } from "express";
+import { signJwt } from "./jwt";
+import { createSession } from "./sessions";
+import { clientIp } from "./throttle";
+import { loadRole } from "./roles";
+
+const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60;
+
+type LoginUserRow = {
+  id: string;
+  name: string;
+  email: string;
+  created_at: string;
+  role: string | null;
+  totp_enabled_at?: string | null;
+};
+
+/**
+ * Device info stored on the session row so users can tell their sessions apart
+ */
+export function sessionMeta(req: Request) {
+  return {
+    userAgent: req.get("user-agent") ?? undefined,
+    ip: clientIp(req),
+  };
+}
+
+/**
+ * Whether the user's role may log in (can_post_login permission). A missing role row does not block.
+ */
+export async function isLoginAllowed(roleName: string | null) {
+  if (!roleName) return true;
+
+  try {
+    const role = await loadRole(roleName);
+    return !role || role.can_post_login;
+  } catch (roleErr) {
+    console.error("login: failed to load role:", roleErr);
+    return true;
+  }
+}
+
+/**
+ * Accounts that must not get a new session whatever the credentials (admin-disabled).
+ * Callers select users.disabled_at.
+ */
+export function isAccountDisabled(userRow: { disabled_at?: string | null }) {
+  return Boolean(userRow.disabled_at);
+}
+
+/**
+ * Last step shared by every login method (password, OIDC) once the first factor is proven:
+ * - user with 2FA: { twoFactorRequired: true, challengeToken } (finish at POST /auth/login/2fa)
+ * - otherwise: a new session { user, token, refreshToken, expiresIn }
+ * Pass secondFactorVerified once the TOTP / recovery code has been checked.
+ */
+export async function completeLogin(req: Request, userRow: LoginUserRow, opts: { secondFactorVerified?: boolean } = {}) {
+  if (userRow.totp_enabled_at && !opts.secondFactorVerified) {
+    const challengeToken = signJwt(
+      { userId: userRow.id, typ: "2fa_challenge" },
+      { expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS }
+    );
+    return { twoFactorRequired: true as const, challengeToken };
+  }
+
+  const tokens = await createSession(userRow, sessionMeta(req));
+
+  const user = {
+    id: userRow.id,
+    name: userRow.name,
+    email: userRow.email,
+    created_at: userRow.created_at,
+    role: userRow.role,
+  };
+
+  return { user, ...tokens };
+}
\ No newline at end of file
@@ -0,0 +1,313 @@
+import crypto from "crypto";
+import axios from "axios";
+import bcrypt from "bcrypt";
+import jwt from "jsonwebtoken";
+import dotenv from "dotenv";
+import { supabase } from "../supabase";
+
+dotenv.config();
+
+/**
+ * Generic OpenID Connect client (authorization code + PKCE).
+ *
+ * Providers are configured from the environment:
+ *   OIDC_PROVIDERS=google,mock
+ *   OIDC_<NAME>_ISSUER=https://accounts.google.com
+ *   OIDC_<NAME>_CLIENT_ID=...
+ *   OIDC_<NAME>_CLIENT_SECRET=...        (optional: public clients rely on PKCE only)
+ *   OIDC_<NAME>_REDIRECT_URI=http://localhost:3000/auth/oidc/<name>/callback
+ *   OIDC_<NAME>_SCOPES="openid email profile"   (optional)
+ */
+export type OidcProvider = {
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string | null;
+  redirectUri: string;
+  scopes: string;
+};
+
+type DiscoveryDocument = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+};
+
+export const AUTH_REQUEST_TTL_MS = 10 * 60 * 1000;
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ["RS256", "RS384", "RS512", "PS256", "PS384", "PS512", "ES256", "ES384", "ES512"];
+
+function loadProviders() {
+  const providers = new Map<string, OidcProvider>();
+  const names = (process.env.OIDC_PROVIDERS ?? "")
+    .split(",")
+    .map((n) => n.trim().toLowerCase())
+    .filter(Boolean);
+
+  for (const name of names) {
+    const prefix = `OIDC_${name.toUpperCase()}_`;
+    const issuer = process.env[`${prefix}ISSUER`];
+    const clientId = process.env[`${prefix}CLIENT_ID`];
+    const redirectUri = process.env[`${prefix}REDIRECT_URI`];
+    if (!issuer || !clientId || !redirectUri) {
+      throw new Error(`${prefix}ISSUER, ${prefix}CLIENT_ID and ${prefix}REDIRECT_URI must be set in environment`);
+    }
+    providers.set(name, {
+      name,
+      issuer: issuer.replace(/\/+$/, ""),
+      clientId,
+      clientSecret: process.env[`${prefix}CLIENT_SECRET`] ?? null,
+      redirectUri,
+      scopes: process.env[`${prefix}SCOPES`] ?? "openid email profile",
+    });
+  }
+  return providers;
+}
+
+const PROVIDERS = loadProviders();
+
+export function getOidcProvider(name: string) {
+  return PROVIDERS.get(name.toLowerCase()) ?? null;
+}
+
+export function listOidcProviders() {
+  return [...PROVIDERS.keys()];
+}
+
+const discoveryCache = new Map<string, { doc: DiscoveryDocument; fetchedAt: number }>();
+const jwksCache = new Map<string, Map<string, crypto.KeyObject>>();
+
+/**
+ * Fetch (and cache) the provider's /.well-known/openid-configuration
+ */
+async function discover(provider: OidcProvider) {
+  const cached = discoveryCache.get(provider.name);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_TTL_MS) return cached.doc;
+
+  const resp = await axios.get(`${provider.issuer}/.well-known/openid-configuration`, { timeout: 10_000 });
+  const doc = resp.data as DiscoveryDocument;
+  if (doc.issuer?.replace(/\/+$/, "") !== provider.issuer) {
+    throw new Error(`OIDC discovery issuer mismatch for ${provider.name}: ${doc.issuer}`);
+  }
+  discoveryCache.set(provider.name, { doc, fetchedAt: Date.now() });
+  return doc;
+}
+
+/**
+ * Public key for a kid from the provider JWKS. The JWKS is re-fetched once on an unknown kid (key rotation).
+ */
+async function getSigningKey(provider: OidcProvider, kid: string | undefined) {
+  const lookup = (keys: Map<string, crypto.KeyObject> | undefined) => {
+    if (!keys) return undefined;
+    if (kid) return keys.get(kid);
+    return keys.size === 1 ? [...keys.values()][0] : undefined;
+  };
+
+  let key = lookup(jwksCache.get(provider.name));
+  if (key) return key;
+
+  const doc = await discover(provider);
+  const resp = await axios.get(doc.jwks_uri, { timeout: 10_000 });
+  const keys = new Map<string, crypto.KeyObject>();
+  for (const jwk of (resp.data?.keys ?? []) as any[]) {
+    if (jwk.use && jwk.use !== "sig") continue;
+    try {
+      keys.set(jwk.kid ?? "", crypto.createPublicKey({ key: jwk, format: "jwk" }));
+    } catch (err) {
+      console.warn(`oidc(${provider.name}): skipping unusable JWK`, jwk.kid, String(err));
+    }
+  }
+  jwksCache.set(provider.name, keys);
+
+  key = lookup(keys);
+  if (!key) throw new Error(`oidc(${provider.name}): no signing key for kid ${kid}`);
+  return key;
+}
+
+const randomToken = () => crypto.randomBytes(32).toString("base64url");
+export const hashState = (state: string) => crypto.createHash("sha256").update(state).digest("hex");
+
+/**
+ * Start an authorization request: persist state / nonce / PKCE verifier server-side
+ * and return the URL the browser must be sent to, with the state hash the caller binds to the browser
+ * (oidc_state cookie, see utils/cookies.ts).
+ * linkUserId: set when an authenticated user links a new identity to their account.
+ */
+export async function createAuthorizationRequest(provider: OidcProvider, linkUserId: string | null = null) {
+  const doc = await discover(provider);
+
+  const state = randomToken();
+  const nonce = randomToken();
+  const codeVerifier = randomToken();
+  const codeChallenge = crypto.createHash("sha256").update(codeVerifier).digest("base64url");
+
+  const { error } = await supabase.from("oidc_auth_requests").insert({
+    state_hash: hashState(state),
+    provider: provider.name,
+    nonce,
+    code_verifier: codeVerifier,
+    link_user_id: linkUserId,
+    expires_at: new Date(Date.now() + AUTH_REQUEST_TTL_MS).toISOString(),
+  });
+  if (error) throw error;
+
+  const params = new URLSearchParams({
+    response_type: "code",
+    client_id: provider.clientId,
+    redirect_uri: provider.redirectUri,
+    scope: provider.scopes,
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: "S256",
+  });
+  return { url: `${doc.authorization_endpoint}?${params.toString()}`, stateHash: hashState(state) };
+}
+
+/**
+ * Take back (single use) the request stored for a state. Returns null if unknown, expired or for another provider.
+ */
+export async function consumeAuthorizationRequest(provider: OidcProvider, state: string) {
+  const { data, error } = await supabase
+    .from("oidc_auth_requests")
+    .delete()
+    .eq("state_hash", hashState(state))
+    .select("provider, nonce, code_verifier, link_user_id, expires_at");
+
+  if (error) throw error;
+  const row = data?.[0];
+  if (!row || row.provider !== provider.name) return null;
+  if (new Date(row.expires_at).getTime() <= Date.now()) return null;
+  return row as { provider: string; nonce: string; code_verifier: string; link_user_id: string | null };
+}
+
+/**
+ * Exchange the authorization code at the token endpoint and validate the returned ID token.
+ * Returns the ID token claims.
+ */
+export async function exchangeCodeForIdentity(provider: OidcProvider, code: string, codeVerifier: string, nonce: string) {
+  const doc = await discover(provider);
+
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: provider.redirectUri,
+    client_id: provider.clientId,
+    code_verifier: codeVerifier,
+  });
+  if (provider.clientSecret) body.set("client_secret", provider.clientSecret);
+
+  const resp = await axios.post(doc.token_endpoint, body.toString(), {
+    headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+    timeout: 10_000,
+  });
+
+  const idToken = resp.data?.id_token;
+  if (typeof idToken !== "string") throw new Error(`oidc(${provider.name}): token response has no id_token`);
+
+  return validateIdToken(provider, doc, idToken, nonce);
+}
+
+/**
+ * ID token checks (OIDC Core 3.1.3.7): signature from the provider JWKS, iss, aud/azp, exp, nonce.
+ */
+async function validateIdToken(provider: OidcProvider, doc: DiscoveryDocument, idToken: string, nonce: string) {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded) throw new Error("id_token malformed");
+
+  const key = await getSigningKey(provider, decoded.header.kid);
+  const claims = jwt.verify(idToken, key, {
+    algorithms: ID_TOKEN_ALGORITHMS,
+    issuer: doc.issuer,
+    audience: provider.clientId,
+  }) as jwt.JwtPayload;
+
+  if (Array.isArray(claims.aud) && claims.aud.length > 1 && claims.azp !== provider.clientId) {
+    throw new Error("id_token azp mismatch");
+  }
+  if (claims.nonce !== nonce) throw new Error("id_token nonce mismatch");
+  if (!claims.sub) throw new Error("id_token has no sub");
+  return claims;
+}
+
+/**
+ * Map a validated identity to a users row:
+ * 1. identity already linked (provider + sub)
+ * 2. explicit linking step: link to the user who started the flow
+ * 3. verified email matching an existing user -> link
+ * 4. verified email unknown -> create a USER account
+ * Returns { user } or { error, status } when the identity cannot be accepted.
+ */
+export async function resolveIdentityUser(
+  provider: OidcProvider,
+  claims: jwt.JwtPayload,
+  linkUserId: string | null
+): Promise<{ user: any; linked: boolean } | { status: number; error: string }> {
+  const userColumns = "id, name, email, role, created_at, totp_enabled_at, disabled_at";
+  const email = typeof claims.email === "string" ? claims.email.toLowerCase() : null;
+  const emailVerified = claims.email_verified === true || claims.email_verified === "true";
+
+  const { data: identity, error: identityError } = await supabase
+    .from("user_identities")
+    .select("id, user_id")
+    .eq("provider", provider.name)
+    .eq("subject", claims.sub!)
+    .maybeSingle();
+  if (identityError) throw identityError;
+
+  if (identity) {
+    if (linkUserId && identity.user_id !== linkUserId) {
+      return { status: 409, error: "Identity already linked to another account" };
+    }
+    await supabase.from("user_identities").update({ last_login_at: new Date().toISOString() }).eq("id", identity.id);
+    const { data: user, error } = await supabase.from("users").select(userColumns).eq("id", identity.user_id).single();
+    if (error || !user) throw error ?? new Error("Linked user not found");
+    return { user, linked: false };
+  }
+
+  let user: any = null;
+  if (linkUserId) {
+    const { data, error } = await supabase.from("users").select(userColumns).eq("id", linkUserId).single();
+    if (error || !data) throw error ?? new Error("User not found");
+    user = data;
+  } else {
+    if (!email || !emailVerified) {
+      return { status: 403, error: "Identity email is not verified; sign in and link this provider from your account" };
+    }
+
+    const { data: existing, error } = await supabase.from("users").select(userColumns).eq("email", email).maybeSingle();
+    if (error) throw error;
+    user = existing;
+
+    if (!user) {
+      // No password login for this account until the user sets one through /auth/forgot-password
+      const unusablePassword = await bcrypt.hash(crypto.randomBytes(32).toString("hex"), 12);
+      const { data: created, error: insertError } = await supabase
+        .from("users")
+        .insert({
+          name: typeof claims.name === "string" && claims.name ? claims.name : email,
+          email,
+          password: unusablePassword,
+          has_password: false,
+          role: "USER",
+          email_verified_at: new Date().toISOString(),
+        })
+        .select(userColumns)
+        .single();
+      if (insertError || !created) throw insertError ?? new Error("Failed to create user");
+      user = created;
+    }
+  }
+
+  const { error: linkError } = await supabase.from("user_identities").insert({
+    user_id: user.id,
+    provider: provider.name,
+    subject: claims.sub,
+    email,
+    last_login_at: new Date().toISOString(),
+  });
+  if (linkError) throw linkError;
+
+  return { user, linked: true };
+}
\ No newline at end of file
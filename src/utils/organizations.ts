@@ -0,0 +1,115 @@
+import { supabase } from "../supabase";
+import { getRestClient } from "../shopify";
+import { decryptSecret, encryptSecret } from "./secretBox";
+import { membershipCache } from "./principalCache";
+
+/**
+ * Organizations (multi-tenant storefronts)
+ *
+ * An organization owns one Shopify shop (shop_domain + access token, and optionally its own webhook secret;
+ * both encrypted at rest, see secretBox.ts) and has members, each with a per-organization role.
+ *
+ * Request context (authorizer -> req.user.organizationId):
+ *   - API keys created while an organization is selected are bound to it
+ *   - user sessions select one with the X-Organization-Id header
+ * In an organization the member's organization role replaces their global role; products, bestsellers and
+ * API keys are scoped to it and Shopify calls use its shop. Without one, the single store configured with
+ * SHOPIFY_SHOP / SHOPIFY_ACCESS_TOKEN is used (organization_id = null).
+ */
+export const ORGANIZATION_HEADER = "x-organization-id";
+
+// Includes the encrypted credentials: rows go through toPublicOrganization before leaving the server
+export const ORGANIZATION_COLUMNS = "id, name, shop_domain, created_by, created_at, shopify_token_encrypted, webhook_secret_encrypted";
+
+export const MEMBER_COLUMNS = "organization_id, user_id, role, created_at, user:users(id, name, email)";
+
+/**
+ * "My-Store.myshopify.com" / "https://my-store.myshopify.com/" -> "my-store.myshopify.com"
+ */
+export function normalizeShopDomain(domain: string) {
+  return domain
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, "")
+    .replace(/\/+$/, "");
+}
+
+/**
+ * Organization row as returned by the API: credentials replaced by has_* flags
+ */
+export function toPublicOrganization(row: any) {
+  const { shopify_token_encrypted, webhook_secret_encrypted, ...rest } = row;
+  return {
+    ...rest,
+    has_shopify_token: Boolean(shopify_token_encrypted),
+    has_webhook_secret: Boolean(webhook_secret_encrypted),
+  };
+}
+
+/**
+ * Credential columns to write (undefined = unchanged, null = remove)
+ */
+export function encryptedCredentials(creds: { shopify_access_token?: string | undefined; webhook_secret?: string | null | undefined }) {
+  const update: Record<string, string | null> = {};
+  if (creds.shopify_access_token !== undefined) update.shopify_token_encrypted = encryptSecret(creds.shopify_access_token);
+  if (creds.webhook_secret !== undefined) {
+    update.webhook_secret_encrypted = creds.webhook_secret === null ? null : encryptSecret(creds.webhook_secret);
+  }
+  return update;
+}
+
+export async function loadOrganization(id: string) {
+  const { data, error } = await supabase.from("organizations").select(ORGANIZATION_COLUMNS).eq("id", id).maybeSingle();
+  // invalid_text_representation: malformed id
+  if (error && error.code === "22P02") return null;
+  if (error) throw error;
+  return data;
+}
+
+export async function findOrganizationByShopDomain(domain: string) {
+  const { data, error } = await supabase
+    .from("organizations")
+    .select(ORGANIZATION_COLUMNS)
+    .eq("shop_domain", normalizeShopDomain(domain))
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * organization_members row of the user (cached with the principal, see principalCache.ts), null if not a member
+ */
+export async function getMembership(organizationId: string, userId: string) {
+  return membershipCache.get(`${organizationId}:${userId}`, async () => {
+    const { data, error } = await supabase
+      .from("organization_members")
+      .select("organization_id, user_id, role")
+      .match({ organization_id: organizationId, user_id: userId })
+      .maybeSingle();
+    // invalid_text_representation: malformed organization id
+    if (error && error.code === "22P02") return null;
+    if (error) throw error;
+    return data;
+  });
+}
+
+/**
+ * Shopify client of the organization (null = the single store from the environment)
+ */
+export async function shopifyClientFor(organizationId: string | null) {
+  if (!organizationId) return getRestClient();
+
+  const org = await loadOrganization(organizationId);
+  if (!org?.shopify_token_encrypted) {
+    throw new Error(`Organization ${organizationId} has no Shopify credentials`);
+  }
+  return getRestClient(org.shop_domain, decryptSecret(org.shopify_token_encrypted));
+}
+
+/**
+ * Secret that signs the organization's webhooks: its own, else SHOPIFY_WEBHOOK_SECRET (one Shopify app for every shop)
+ */
+export function webhookSecretFor(org: { webhook_secret_encrypted: string | null } | null) {
+  if (org?.webhook_secret_encrypted) return decryptSecret(org.webhook_secret_encrypted);
+  return process.env.SHOPIFY_WEBHOOK_SECRET ?? null;
+}
@@ -0,0 +1,79 @@
+import crypto from "crypto";
+import { supabase } from "../supabase";
+
+const RESET_TOKEN_TTL_MINUTES = Number(process.env.PASSWORD_RESET_TTL_MINUTES ?? 30);
+
+function hashSecret(secret: string) {
+  return crypto.createHash("sha256").update(secret).digest("hex");
+}
+
+/**
+ * Create a single-use reset token for a user.
+ * Returns the plaintext token "<id>.<secret>" (to be mailed) and its expiry.
+ * Any previous unused token of the user is invalidated.
+ */
+export async function createPasswordResetToken(userId: string) {
+  const now = new Date().toISOString();
+  await supabase.from("password_reset_tokens").update({ used_at: now }).eq("user_id", userId).is("used_at", null);
+
+  const secret = crypto.randomBytes(32).toString("hex");
+  const expiresAt = new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000).toISOString();
+
+  const { data, error } = await supabase
+    .from("password_reset_tokens")
+    .insert({
+      user_id: userId,
+      token_hash: hashSecret(secret),
+      expires_at: expiresAt,
+    })
+    .select("id")
+    .single();
+
+  if (error || !data) {
+    throw error ?? new Error("Failed to create password reset token");
+  }
+
+  return { token: `${(data as any).id}.${secret}`, expiresAt };
+}
+
+/**
+ * Consume a reset token.
+ * Returns the user_id if the token is valid, unused and not expired, otherwise null.
+ * The token is marked used atomically, so it can only succeed once.
+ */
+export async function consumePasswordResetToken(plaintextToken: string) {
+  const parts = plaintextToken.split(".");
+  if (parts.length !== 2) return null;
+  const [id, secret] = parts;
+  if (!id || !secret) return null;
+
+  const { data, error } = await supabase
+    .from("password_reset_tokens")
+    .select("id, user_id, token_hash, expires_at, used_at")
+    .eq("id", id)
+    .limit(1)
+    .single();
+
+  if (error || !data) return null;
+  if (data.used_at) return null;
+  if (new Date(data.expires_at).getTime() <= Date.now()) return null;
+
+  // timing-safe compare
+  const a = Buffer.from(data.token_hash as string, "hex");
+  const b = Buffer.from(hashSecret(secret), "hex");
+  if (a.length !== b.length) return null;
+  if (!crypto.timingSafeEqual(a, b)) return null;
+
+  // Only the request that flips used_at from NULL wins
+  const { data: consumed, error: updateError } = await supabase
+    .from("password_reset_tokens")
+    .update({ used_at: new Date().toISOString() })
+    .eq("id", id)
+    .is("used_at", null)
+    .select("id");
+
+  if (updateError) throw updateError;
+  if (!consumed || consumed.length === 0) return null;
+
+  return data.user_id as string;
+}
\ No newline at end of file
@@ -0,0 +1,186 @@
+import { describe, expect, it } from "vitest";
+import { POLICIES, PolicyAction, PolicyDecision, Principal, evaluatePolicy, isAllowed } from "./policies";
+
+function principal(overrides: Partial<Principal> = {}): Principal {
+  return { id: "user-1", role: {}, userSession: true, organizationId: null, ...overrides };
+}
+
+const apiKey = (scopes: string[] | null, overrides: Partial<Principal> = {}) =>
+  principal({ userSession: false, apiKeyScopes: scopes, ...overrides });
+
+const ALLOWED: PolicyDecision = { allowed: true };
+const forbidden = (reason: string): PolicyDecision => ({ allowed: false, status: 403, reason });
+const notFound = (label: string): PolicyDecision => ({ allowed: false, status: 404, reason: `${label} not found` });
+
+const INSUFFICIENT = forbidden("Forbidden: insufficient permissions");
+const NOT_VERIFIED = forbidden("Forbidden: email address not verified");
+const SESSION_ONLY = forbidden("Forbidden: requires a user session");
+const missingScope = (scope: string) => forbidden(`Forbidden: API key is missing scope ${scope}`);
+
+describe("evaluatePolicy: principal-level checks", () => {
+  const cases: [PolicyAction, string, Principal, PolicyDecision][] = [
+    ["product:list", "user session without permissions", principal(), ALLOWED],
+    ["product:list", "unscoped API key", apiKey(null), ALLOWED],
+    ["product:list", "API key with products:read", apiKey(["products:read"]), ALLOWED],
+    ["product:list", "API key without products:read", apiKey(["bestsellers:read"]), missingScope("products:read")],
+
+    ["product:list_all", "role with can_get_all_products", principal({ role: { can_get_all_products: true } }), ALLOWED],
+    ["product:list_all", "role without can_get_all_products", principal(), INSUFFICIENT],
+    [
+      "product:list_all",
+      "API key without products:read",
+      apiKey(["products:write"], { role: { can_get_all_products: true } }),
+      missingScope("products:read"),
+    ],
+
+    ["product:read", "user session", principal(), ALLOWED],
+    ["product:read", "API key without products:read", apiKey(["products:write"]), missingScope("products:read")],
+
+    ["product:create", "role with can_post_products", principal({ role: { can_post_products: true } }), ALLOWED],
+    ["product:create", "role without can_post_products", principal({ role: { can_post_product_images: true } }), INSUFFICIENT],
+    ["product:create", "no role", principal({ role: null }), INSUFFICIENT],
+    [
+      "product:create",
+      "permission restricted until the email is verified",
+      principal({ role: { can_post_products: true }, unverifiedRestrictions: ["can_post_products"] }),
+      NOT_VERIFIED,
+    ],
+    [
+      "product:create",
+      "API key with products:read only",
+      apiKey(["products:read"], { role: { can_post_products: true } }),
+      missingScope("products:write"),
+    ],
+
+    ["product:attach_image", "role with can_post_product_images", principal({ role: { can_post_product_images: true } }), ALLOWED],
+    ["product:attach_image", "role without can_post_product_images", principal({ role: { can_post_products: true } }), INSUFFICIENT],
+    [
+      "product:attach_image",
+      "API key without products:write",
+      apiKey(["products:read"], { role: { can_post_product_images: true } }),
+      missingScope("products:write"),
+    ],
+
+    ["product:read_bestsellers", "role with can_get_my_bestsellers", principal({ role: { can_get_my_bestsellers: true } }), ALLOWED],
+    ["product:read_bestsellers", "role without can_get_my_bestsellers", principal(), INSUFFICIENT],
+    [
+      "product:read_bestsellers",
+      "API key without bestsellers:read",
+      apiKey(["products:read"], { role: { can_get_my_bestsellers: true } }),
+      missingScope("bestsellers:read"),
+    ],
+
+    ["api_key:manage", "user session", principal(), ALLOWED],
+    ["api_key:manage", "API key", apiKey(null), SESSION_ONLY],
+
+    ["api_key:update", "user session", principal(), ALLOWED],
+    ["api_key:update", "API key", apiKey(null), SESSION_ONLY],
+  ];
+
+  it("has cases for every policy", () => {
+    expect(new Set(cases.map(([action]) => action))).toEqual(new Set(Object.keys(POLICIES)));
+  });
+
+  it.each(cases)("%s: %s", (action, _description, who, expected) => {
+    expect(evaluatePolicy(action, who)).toEqual(expected);
+    expect(isAllowed(action, who)).toBe(expected.allowed);
+  });
+});
+
+describe("evaluatePolicy: resource checks", () => {
+  const allProducts = { can_get_all_products: true };
+  const product = (overrides: Record<string, unknown> = {}) => ({
+    id: "product-1",
+    created_by: "user-1",
+    organization_id: null,
+    ...overrides,
+  });
+  const key = (overrides: Record<string, unknown> = {}) => ({
+    id: "key-1",
+    user_id: "user-1",
+    organization_id: null,
+    ...overrides,
+  });
+
+  const cases: [PolicyAction, string, Principal, unknown, PolicyDecision][] = [
+    ["product:read", "owner", principal(), product(), ALLOWED],
+    ["product:read", "non-owner", principal(), product({ created_by: "user-2" }), notFound("Product")],
+    ["product:read", "non-owner with can_get_all_products", principal({ role: allProducts }), product({ created_by: "user-2" }), ALLOWED],
+    ["product:read", "loader found nothing", principal({ role: allProducts }), null, notFound("Product")],
+    [
+      "product:read",
+      "owner, product in another organization",
+      principal({ organizationId: "org-a" }),
+      product({ organization_id: "org-b" }),
+      notFound("Product"),
+    ],
+    [
+      "product:read",
+      "can_get_all_products, product in another organization",
+      principal({ role: allProducts, organizationId: "org-a" }),
+      product({ created_by: "user-2", organization_id: "org-b" }),
+      notFound("Product"),
+    ],
+    [
+      "product:read",
+      "organization product outside any organization context",
+      principal(),
+      product({ organization_id: "org-a" }),
+      notFound("Product"),
+    ],
+    [
+      "product:read",
+      "product outside any organization from an organization context",
+      principal({ organizationId: "org-a" }),
+      product(),
+      notFound("Product"),
+    ],
+    [
+      "product:read",
+      "owner in the same organization",
+      principal({ organizationId: "org-a" }),
+      product({ organization_id: "org-a" }),
+      ALLOWED,
+    ],
+    [
+      "product:read",
+      "API key without products:read is refused before the resource",
+      apiKey(["products:write"]),
+      product(),
+      missingScope("products:read"),
+    ],
+
+    ["api_key:update", "owner", principal(), key(), ALLOWED],
+    ["api_key:update", "non-owner", principal(), key({ user_id: "user-2" }), notFound("API key")],
+    ["api_key:update", "loader found nothing", principal(), null, notFound("API key")],
+    [
+      "api_key:update",
+      "owner, key bound to another organization",
+      principal({ organizationId: "org-a" }),
+      key({ organization_id: "org-b" }),
+      notFound("API key"),
+    ],
+    [
+      "api_key:update",
+      "owner, organization key outside any organization context",
+      principal(),
+      key({ organization_id: "org-a" }),
+      notFound("API key"),
+    ],
+    [
+      "api_key:update",
+      "owner in the same organization",
+      principal({ organizationId: "org-a" }),
+      key({ organization_id: "org-a" }),
+      ALLOWED,
+    ],
+  ];
+
+  it.each(cases)("%s: %s", (action, _description, who, resource, expected) => {
+    expect(evaluatePolicy(action, who, resource)).toEqual(expected);
+  });
+
+  it("skips resource checks when no resource is given", () => {
+    expect(evaluatePolicy("product:read", principal({ id: "someone-else" }))).toEqual(ALLOWED);
+  });
+});
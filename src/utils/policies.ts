@@ -0,0 +1,124 @@
+import type { PermissionKey } from "../middleware/permissions";
+import type { ApiKeyScope } from "./apiKeyScopes";
+
+/**
+ * Authorization policies (who may do what on which resource)
+ *
+ * One rule per action: role permission, API key scope, user session and resource ownership / organization,
+ * checked together by evaluatePolicy. Pure (no request / database access): routes use it through
+ * middleware/authorize.ts, which builds the principal from req.user and loads the resource.
+ *
+ * Denials are consistent:
+ *   - 403 + reason when the caller may not perform the action at all
+ *   - 404 "<Resource> not found" when the resource does not exist OR belongs to someone else
+ *     (other principals' resources are not disclosed)
+ */
+export type Principal = {
+  id: string;
+  /** Role object from authorizer (one boolean per registry permission), null = no role */
+  role: Partial<Record<PermissionKey, boolean>> | null;
+  /** API key scopes, null / undefined = user session or unscoped key */
+  apiKeyScopes?: string[] | null | undefined;
+  unverifiedRestrictions?: string[] | undefined;
+  /** Authenticated through a user session (JWT / cookie), not an API key */
+  userSession: boolean;
+  /** Organization context, null = none (see utils/organizations.ts) */
+  organizationId?: string | null | undefined;
+};
+
+export type PolicyDecision = { allowed: true } | { allowed: false; status: 403 | 404; reason: string };
+
+type PolicyRule = {
+  permission?: PermissionKey;
+  scope?: ApiKeyScope;
+  userSession?: boolean;
+  resource?: {
+    label: string;
+    owner: (resource: any) => string | null | undefined;
+    /** Organization of the resource: must be the principal's organization context (null = outside any) */
+    organization?: (resource: any) => string | null | undefined;
+    /** Non-owners pass when this action is allowed (e.g. admins reading every product) */
+    unlessAllowed?: PolicyAction;
+  };
+};
+
+export type PolicyAction =
+  | "product:list"
+  | "product:list_all"
+  | "product:read"
+  | "product:create"
+  | "product:attach_image"
+  | "product:read_bestsellers"
+  | "api_key:manage"
+  | "api_key:update";
+
+export const POLICIES: Record<PolicyAction, PolicyRule> = {
+  "product:list": { scope: "products:read" },
+  "product:list_all": { permission: "can_get_all_products", scope: "products:read" },
+  "product:read": {
+    scope: "products:read",
+    resource: {
+      label: "Product",
+      owner: (product) => product.created_by,
+      organization: (product) => product.organization_id,
+      unlessAllowed: "product:list_all",
+    },
+  },
+  "product:create": { permission: "can_post_products", scope: "products:write" },
+  "product:attach_image": { permission: "can_post_product_images", scope: "products:write" },
+  "product:read_bestsellers": { permission: "can_get_my_bestsellers", scope: "bestsellers:read" },
+  "api_key:manage": { userSession: true },
+  "api_key:update": {
+    userSession: true,
+    resource: { label: "API key", owner: (key) => key.user_id, organization: (key) => key.organization_id },
+  },
+};
+
+const ALLOW: PolicyDecision = { allowed: true };
+
+function deny(status: 403 | 404, reason: string): PolicyDecision {
+  return { allowed: false, status, reason };
+}
+
+/**
+ * Check an action for a principal.
+ * - resource undefined: only the principal-level checks (session, scope, permission)
+ * - resource null: the loader found nothing (404)
+ */
+export function evaluatePolicy(action: PolicyAction, principal: Principal, resource?: unknown): PolicyDecision {
+  const rule = POLICIES[action];
+
+  if (rule.userSession && !principal.userSession) {
+    return deny(403, "Forbidden: requires a user session");
+  }
+  if (rule.scope && Array.isArray(principal.apiKeyScopes) && !principal.apiKeyScopes.includes(rule.scope)) {
+    return deny(403, `Forbidden: API key is missing scope ${rule.scope}`);
+  }
+  if (rule.permission) {
+    if (!principal.role?.[rule.permission]) {
+      return deny(403, "Forbidden: insufficient permissions");
+    }
+    if (principal.unverifiedRestrictions?.includes(rule.permission)) {
+      return deny(403, "Forbidden: email address not verified");
+    }
+  }
+
+  if (rule.resource && resource !== undefined) {
+    const { label, owner, organization, unlessAllowed } = rule.resource;
+    if (resource === null) return deny(404, `${label} not found`);
+    if (organization && (organization(resource) ?? null) !== (principal.organizationId ?? null)) {
+      return deny(404, `${label} not found`);
+    }
+
+    const isOwner = owner(resource) === principal.id;
+    if (!isOwner && !(unlessAllowed && isAllowed(unlessAllowed, principal))) {
+      return deny(404, `${label} not found`);
+    }
+  }
+
+  return ALLOW;
+}
+
+export function isAllowed(action: PolicyAction, principal: Principal, resource?: unknown) {
+  return evaluatePolicy(action, principal, resource).allowed;
+}
@@ -0,0 +1,133 @@
+/**
+ * Principal cache (authorizer)
+ *
+ * authorizer resolves the users row, the role and, for API keys, the key row on every request. Those lookups
+ * are cached in memory for PRINCIPAL_CACHE_TTL_MS (default 15s, 0 disables the cache):
+ *   - users rows by id, roles by name, API key rows by id (pk_ keys only; legacy keys are upgraded on first use),
+ *     organization memberships by organization + user
+ *   - sessions are not cached: logout / revoked sessions take effect immediately everywhere
+ *   - last_used_at is already written in batches by apiKeyUsage
+ *
+ * Invalidation: code that changes a cached row (password, role, disable, 2FA, key revocation / rotation,
+ * role permissions, organization members) calls the matching invalidate* function right after the write, so
+ * the change applies immediately on this instance. Other instances pick it up when their entry
+ * expires, i.e. within PRINCIPAL_CACHE_TTL_MS.
+ *
+ * principalCacheStats() exposes hit / miss counters (GET /health/principal-cache, can_view_server_stats).
+ */
+export const PRINCIPAL_CACHE_TTL_MS = Number(process.env.PRINCIPAL_CACHE_TTL_MS ?? 15_000);
+
+const MAX_ENTRIES = 10_000;
+
+export type TtlCache<T> = {
+  /** Cached value, or load() on a miss (null results are not cached) */
+  get(key: string, load: () => Promise<T | null>): Promise<T | null>;
+  /** True if the key has a live entry (no counter change) */
+  has(key: string): boolean;
+  delete(key: string): void;
+  deleteWhere(predicate: (value: T) => boolean): void;
+  clear(): void;
+  stats(): { hits: number; misses: number; size: number };
+};
+
+export function makeTtlCache<T>(ttlMs: number): TtlCache<T> {
+  const entries = new Map<string, { value: T; expiresAt: number }>();
+  let hits = 0;
+  let misses = 0;
+
+  const live = (key: string, now: number) => {
+    const entry = entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= now) {
+      entries.delete(key);
+      return null;
+    }
+    return entry;
+  };
+
+  const store = (key: string, value: T, now: number) => {
+    if (entries.size >= MAX_ENTRIES) {
+      for (const [k, entry] of entries) {
+        if (entry.expiresAt <= now) entries.delete(k);
+      }
+      // Still full: drop the oldest insertion
+      if (entries.size >= MAX_ENTRIES) {
+        const oldest = entries.keys().next().value;
+        if (oldest !== undefined) entries.delete(oldest);
+      }
+    }
+    entries.set(key, { value, expiresAt: now + ttlMs });
+  };
+
+  return {
+    async get(key, load) {
+      if (ttlMs <= 0) return load();
+
+      const entry = live(key, Date.now());
+      if (entry) {
+        hits++;
+        return entry.value;
+      }
+
+      misses++;
+      const value = await load();
+      if (value !== null) store(key, value, Date.now());
+      return value;
+    },
+    has(key) {
+      return live(key, Date.now()) !== null;
+    },
+    delete(key) {
+      entries.delete(key);
+    },
+    deleteWhere(predicate) {
+      for (const [key, entry] of entries) {
+        if (predicate(entry.value)) entries.delete(key);
+      }
+    },
+    clear() {
+      entries.clear();
+    },
+    stats() {
+      return { hits, misses, size: entries.size };
+    },
+  };
+}
+
+export const userCache = makeTtlCache<any>(PRINCIPAL_CACHE_TTL_MS);
+export const roleCache = makeTtlCache<any>(PRINCIPAL_CACHE_TTL_MS);
+export const apiKeyCache = makeTtlCache<any>(PRINCIPAL_CACHE_TTL_MS);
+export const membershipCache = makeTtlCache<any>(PRINCIPAL_CACHE_TTL_MS);
+
+export function invalidateUser(userId: string) {
+  userCache.delete(userId);
+}
+
+export function invalidateRole(roleName: string) {
+  roleCache.delete(roleName);
+}
+
+export function invalidateApiKeys(apiKeyIds: string[]) {
+  for (const id of apiKeyIds) apiKeyCache.delete(id);
+}
+
+export function invalidateMembership(organizationId: string, userId: string) {
+  membershipCache.delete(`${organizationId}:${userId}`);
+}
+
+/**
+ * Every cached key of a user (revoke-all, account deletion)
+ */
+export function invalidateUserApiKeys(userId: string) {
+  apiKeyCache.deleteWhere((key) => key.user_id === userId);
+}
+
+export function principalCacheStats() {
+  return {
+    ttlMs: PRINCIPAL_CACHE_TTL_MS,
+    users: userCache.stats(),
+    roles: roleCache.stats(),
+    apiKeys: apiKeyCache.stats(),
+    memberships: membershipCache.stats(),
+  };
+}
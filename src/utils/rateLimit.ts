@@ -0,0 +1,164 @@
+import { Response } from "express";
+import { supabase } from "../supabase";
+
+/**
+ * API key rate limits (requests per minute) and daily quotas.
+ *
+ * Limits come from the key (api_keys.rate_limit_per_minute / daily_quota) and its owner's role
+ * (roles.api_requests_per_minute / api_daily_quota); the lowest one set applies, then the
+ * API_RATE_LIMIT_PER_MINUTE / API_DAILY_QUOTA defaults (0 = unlimited).
+ *
+ * Counters are fixed windows (the minute, the UTC day) kept in a pluggable store:
+ * RATE_LIMIT_STORE = "memory" | "postgres" (default: memory)
+ */
+
+export type RateLimitHit = {
+  count: number;
+  resetAt: number;
+};
+
+export interface RateLimitStore {
+  /**
+   * Count one request for key in the current window of windowMs and return the new total.
+   */
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+const MINUTE = 60_000;
+const DAY = 24 * 60 * MINUTE;
+const MEMORY_SWEEP_THRESHOLD = 10_000;
+
+const DEFAULT_PER_MINUTE = Number(process.env.API_RATE_LIMIT_PER_MINUTE ?? 60);
+const DEFAULT_DAILY_QUOTA = Number(process.env.API_DAILY_QUOTA ?? 10_000);
+
+const windowStart = (windowMs: number, now: number) => Math.floor(now / windowMs) * windowMs;
+
+/**
+ * In-memory store: per process, lost on restart. Fine for a single instance / development.
+ */
+export function makeMemoryRateLimitStore(): RateLimitStore {
+  const counters = new Map<string, { resetAt: number; count: number }>();
+
+  return {
+    async hit(key, windowMs) {
+      const now = Date.now();
+      // Keep the map bounded: drop finished windows
+      if (counters.size > MEMORY_SWEEP_THRESHOLD) {
+        for (const [k, counter] of counters) if (counter.resetAt <= now) counters.delete(k);
+      }
+
+      const resetAt = windowStart(windowMs, now) + windowMs;
+      const counter = counters.get(key);
+      if (!counter || counter.resetAt !== resetAt) {
+        counters.set(key, { resetAt, count: 1 });
+        return { count: 1, resetAt };
+      }
+      counter.count += 1;
+      return { count: counter.count, resetAt };
+    },
+  };
+}
+
+/**
+ * Postgres store: shared by every instance. Uses api_rate_limit_hit
+ * (see sql/sql_2026-10-18-12-add-api-rate-limits.sql) so each request is counted atomically.
+ */
+export function makePostgresRateLimitStore(): RateLimitStore {
+  return {
+    async hit(key, windowMs) {
+      const { data, error } = await supabase.rpc("api_rate_limit_hit", { p_key: key, p_window_ms: windowMs });
+      if (error) throw error;
+      const row = Array.isArray(data) ? data[0] : data;
+      return { count: Number(row?.hits ?? 0), resetAt: new Date(row?.reset_at).getTime() };
+    },
+  };
+}
+
+let store: RateLimitStore | null = null;
+
+export function getRateLimitStore(): RateLimitStore {
+  if (store) return store;
+
+  const kind = process.env.RATE_LIMIT_STORE ?? "memory";
+  switch (kind) {
+    case "memory":
+      store = makeMemoryRateLimitStore();
+      break;
+    case "postgres":
+      store = makePostgresRateLimitStore();
+      break;
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE "${kind}" (expected "memory" or "postgres")`);
+  }
+  return store;
+}
+
+/**
+ * Replace the store used by the API key limits (custom backends, tests).
+ */
+export function setRateLimitStore(custom: RateLimitStore) {
+  store = custom;
+}
+
+/**
+ * Lowest positive limit among the candidates, null when none is set (unlimited)
+ */
+function effectiveLimit(...candidates: Array<number | null | undefined>) {
+  const set = candidates.filter((n): n is number => typeof n === "number" && n > 0);
+  return set.length > 0 ? Math.min(...set) : null;
+}
+
+/**
+ * Limits for an API key: key and role settings, env defaults when neither sets one
+ */
+export function apiKeyLimits(key: any, role: any) {
+  return {
+    perMinute:
+      effectiveLimit(key?.rate_limit_per_minute, role?.api_requests_per_minute) ?? effectiveLimit(DEFAULT_PER_MINUTE),
+    daily: effectiveLimit(key?.daily_quota, role?.api_daily_quota) ?? effectiveLimit(DEFAULT_DAILY_QUOTA),
+  };
+}
+
+function setRateLimitHeaders(res: Response, limit: number, count: number, resetAt: number) {
+  res.setHeader("X-RateLimit-Limit", String(limit));
+  res.setHeader("X-RateLimit-Remaining", String(Math.max(0, limit - count)));
+  res.setHeader("X-RateLimit-Reset", String(Math.ceil(resetAt / 1000)));
+}
+
+/**
+ * Count the request against the key's per-minute limit, then its daily quota.
+ * Sets X-RateLimit-* for the window closest to running out.
+ * Returns the wait (ms) before the key may call again, 0 if the request may proceed.
+ */
+export async function consumeApiKeyLimits(res: Response, key: any, role: any) {
+  const limits = apiKeyLimits(key, role);
+  const now = Date.now();
+  let remaining = Infinity;
+
+  if (limits.perMinute) {
+    const minute = await getRateLimitStore().hit(`api_key:${key.id}:minute`, MINUTE);
+    setRateLimitHeaders(res, limits.perMinute, minute.count, minute.resetAt);
+    // Requests refused by the minute limit do not eat into the daily quota
+    if (minute.count > limits.perMinute) return minute.resetAt - now;
+    remaining = limits.perMinute - minute.count;
+  }
+
+  if (limits.daily) {
+    const day = await getRateLimitStore().hit(`api_key:${key.id}:day`, DAY);
+    if (day.count > limits.daily || limits.daily - day.count < remaining) {
+      setRateLimitHeaders(res, limits.daily, day.count, day.resetAt);
+    }
+    if (day.count > limits.daily) return day.resetAt - now;
+  }
+
+  return 0;
+}
+
+/**
+ * 429 with Retry-After, same shape as the other limiters
+ */
+export function sendRateLimited(res: Response, waitMs: number) {
+  const retryAfter = Math.max(1, Math.ceil(waitMs / 1000));
+  res.setHeader("Retry-After", String(retryAfter));
+  return res.status(429).json({ error: `API key rate limit exceeded. Try again in ${retryAfter} seconds` });
+}
@@ -0,0 +1,144 @@
+import crypto from "crypto";
+import { Request } from "express";
+import { supabase } from "../supabase";
+import {
+  SIGNATURE_HEADER,
+  SIGNATURE_NONCE_HEADER,
+  SIGNATURE_TIMESTAMP_HEADER,
+  SIGNATURE_VERSION,
+  UNSIGNED_PAYLOAD,
+  canonicalRequest,
+  computeSignature,
+  hashBody,
+} from "../client/signRequest";
+import { signingSecretFor } from "./apiKeys";
+
+/**
+ * Signed API key requests (server side). Format: see src/client/signRequest.ts.
+ *
+ * - the signing secret of a key is derived from its current secret (handed out at creation / rotation)
+ * - timestamps further than SIGNATURE_MAX_SKEW_SECONDS (default 300) from now are rejected
+ * - each nonce is accepted once per key within the window; NONCE_STORE = "memory" | "postgres" (default: memory)
+ */
+const MAX_SKEW_SECONDS = Number(process.env.SIGNATURE_MAX_SKEW_SECONDS ?? 300);
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+const MEMORY_SWEEP_THRESHOLD = 10_000;
+
+export interface NonceStore {
+  /**
+   * Record the nonce; false if it was already used and has not expired yet.
+   */
+  claim(key: string, ttlMs: number): Promise<boolean>;
+}
+
+/**
+ * In-memory store: per process, lost on restart. Fine for a single instance / development.
+ */
+export function makeMemoryNonceStore(): NonceStore {
+  const nonces = new Map<string, number>();
+
+  return {
+    async claim(key, ttlMs) {
+      const now = Date.now();
+      // Keep the map bounded: drop expired nonces
+      if (nonces.size > MEMORY_SWEEP_THRESHOLD) {
+        for (const [k, expiresAt] of nonces) if (expiresAt <= now) nonces.delete(k);
+      }
+
+      const expiresAt = nonces.get(key);
+      if (expiresAt !== undefined && expiresAt > now) return false;
+      nonces.set(key, now + ttlMs);
+      return true;
+    },
+  };
+}
+
+/**
+ * Postgres store: shared by every instance. Uses request_nonce_claim
+ * (see sql/sql_2026-10-18-16-add-request-signing.sql) so concurrent claims of a nonce cannot both succeed.
+ */
+export function makePostgresNonceStore(): NonceStore {
+  return {
+    async claim(key, ttlMs) {
+      const { data, error } = await supabase.rpc("request_nonce_claim", { p_key: key, p_ttl_ms: ttlMs });
+      if (error) throw error;
+      return data === true;
+    },
+  };
+}
+
+let store: NonceStore | null = null;
+
+export function getNonceStore(): NonceStore {
+  if (store) return store;
+
+  const kind = process.env.NONCE_STORE ?? "memory";
+  switch (kind) {
+    case "memory":
+      store = makeMemoryNonceStore();
+      break;
+    case "postgres":
+      store = makePostgresNonceStore();
+      break;
+    default:
+      throw new Error(`Unknown NONCE_STORE "${kind}" (expected "memory" or "postgres")`);
+  }
+  return store;
+}
+
+/**
+ * Replace the nonce store (custom backends, tests).
+ */
+export function setNonceStore(custom: NonceStore) {
+  store = custom;
+}
+
+/**
+ * True when the request carries signature headers
+ */
+export function isSignedRequest(req: Request) {
+  return req.get(SIGNATURE_HEADER) !== undefined;
+}
+
+/**
+ * Body hash as signed by the client: raw bytes kept by the body parsers (see index.ts),
+ * UNSIGNED-PAYLOAD for multipart uploads (not buffered before authorizer runs)
+ */
+function requestBodyHash(req: Request) {
+  const contentType = (req.headers["content-type"] || "").toString();
+  if (contentType.startsWith("multipart/")) return UNSIGNED_PAYLOAD;
+  const raw: Buffer | undefined = (req as any).rawBody;
+  return hashBody(raw);
+}
+
+/**
+ * Check the signature of a request made with the key. Returns null when valid, the rejection reason otherwise.
+ * tokenHash: hash of the secret the request authenticated with (current or pre-rotation).
+ */
+export async function verifyRequestSignature(req: Request, key: { id: string }, tokenHash: string) {
+  const header = req.get(SIGNATURE_HEADER);
+  const timestamp = req.get(SIGNATURE_TIMESTAMP_HEADER);
+  const nonce = req.get(SIGNATURE_NONCE_HEADER);
+  if (!header || !timestamp || !nonce) return "Missing request signature";
+
+  if (!/^\d{1,12}$/.test(timestamp) || Math.abs(Date.now() / 1000 - Number(timestamp)) > MAX_SKEW_SECONDS) {
+    return "Request signature expired";
+  }
+  if (!NONCE_PATTERN.test(nonce)) return "Invalid request signature";
+
+  const [version, signature] = header.split("=", 2);
+  if (version !== SIGNATURE_VERSION || !signature) return "Invalid request signature";
+
+  const canonical = canonicalRequest(req.method, req.originalUrl, timestamp, nonce, requestBodyHash(req));
+  const expected = Buffer.from(computeSignature(signingSecretFor(tokenHash), canonical), "hex");
+  const actual = Buffer.from(signature, "hex");
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return "Invalid request signature";
+  }
+
+  // Only a correctly signed request consumes its nonce (the window on both sides of now)
+  const fresh = await getNonceStore().claim(`${key.id}:${nonce}`, 2 * MAX_SKEW_SECONDS * 1000);
+  if (!fresh) return "Request signature replayed";
+
+  return null;
+}
@@ -0,0 +1,83 @@
+import { supabase } from "../supabase";
+import { PERMISSION_KEYS, PermissionKey } from "../middleware/permissions";
+import { invalidateRole } from "./principalCache";
+
+/**
+ * Roles (data-driven RBAC)
+ *
+ * roles holds the role settings; which permissions a role has lives in role_permissions (role_name, permission),
+ * permission names come from the registry in middleware/permissions.ts (permissions table).
+ *
+ * loadRole returns the role in the shape the rest of the code expects (req.user.role):
+ *   { name, description, requires_2fa, restricted_until_verified, api_requests_per_minute, api_daily_quota,
+ *     permissions: [...], can_x: boolean for every registry permission }
+ */
+export const ROLE_COLUMNS =
+  "name, description, requires_2fa, restricted_until_verified, api_requests_per_minute, api_daily_quota, role_permissions(permission)";
+
+export type Role = {
+  name: string;
+  description: string | null;
+  requires_2fa: boolean;
+  restricted_until_verified: string[] | null;
+  api_requests_per_minute: number | null;
+  api_daily_quota: number | null;
+  permissions: PermissionKey[];
+} & Record<PermissionKey, boolean>;
+
+/**
+ * Role row + embedded role_permissions -> Role
+ */
+export function toRole(row: any): Role {
+  const granted = new Set<string>((row.role_permissions ?? []).map((rp: any) => rp.permission));
+  const permissions = PERMISSION_KEYS.filter((key) => granted.has(key));
+
+  const role: any = {
+    name: row.name,
+    description: row.description ?? null,
+    requires_2fa: Boolean(row.requires_2fa),
+    restricted_until_verified: row.restricted_until_verified ?? null,
+    api_requests_per_minute: row.api_requests_per_minute ?? null,
+    api_daily_quota: row.api_daily_quota ?? null,
+    permissions,
+  };
+  for (const key of PERMISSION_KEYS) role[key] = granted.has(key);
+  return role as Role;
+}
+
+/**
+ * Load a role by name, null if it does not exist. Throws on database errors.
+ */
+export async function loadRole(name: string) {
+  const { data, error } = await supabase.from("roles").select(ROLE_COLUMNS).eq("name", name).maybeSingle();
+  if (error) throw error;
+  return data ? toRole(data) : null;
+}
+
+/**
+ * Whether a caller may give a role to another principal (users, service accounts, organization members): every
+ * permission of the role must be one the caller has, unless the caller can manage roles (and could grant
+ * themselves any permission anyway). Stops can_manage_* holders from handing out ADMIN.
+ */
+export function canAssignRole(callerRole: Partial<Record<PermissionKey, boolean>> | null, role: Pick<Role, "permissions">) {
+  if (callerRole?.can_manage_roles) return true;
+  return role.permissions.every((permission) => Boolean(callerRole?.[permission]));
+}
+
+export async function listRoles() {
+  const { data, error } = await supabase.from("roles").select(ROLE_COLUMNS).order("name", { ascending: true });
+  if (error) throw error;
+  return (data ?? []).map(toRole);
+}
+
+/**
+ * Replace the permission set of a role (set_role_permissions: removal and grants in one transaction)
+ */
+export async function setRolePermissions(roleName: string, permissions: PermissionKey[]) {
+  const { error } = await supabase.rpc("set_role_permissions", {
+    p_role_name: roleName,
+    p_permissions: [...new Set(permissions)],
+  });
+  if (error) throw error;
+  invalidateRole(roleName);
+}
@@ -0,0 +1,44 @@
+import crypto from "crypto";
+
+/**
+ * Encryption at rest for third-party credentials (organization Shopify tokens / webhook secrets).
+ *
+ * AES-256-GCM with CREDENTIALS_ENCRYPTION_KEY (32 bytes, base64 or hex). Stored format:
+ *   "v1:<iv base64>:<auth tag base64>:<ciphertext base64>"
+ * The key is only required once an organization credential is written or read, so single-store
+ * deployments (SHOPIFY_SHOP / SHOPIFY_ACCESS_TOKEN) run without it.
+ */
+const VERSION = "v1";
+
+function encryptionKey() {
+  const raw = process.env.CREDENTIALS_ENCRYPTION_KEY;
+  if (!raw) {
+    throw new Error("CREDENTIALS_ENCRYPTION_KEY must be set in environment to store organization credentials");
+  }
+  const key = /^[0-9a-f]{64}$/i.test(raw) ? Buffer.from(raw, "hex") : Buffer.from(raw, "base64");
+  if (key.length !== 32) {
+    throw new Error("CREDENTIALS_ENCRYPTION_KEY must be 32 bytes (base64 or hex)");
+  }
+  return key;
+}
+
+export function encryptSecret(plaintext: string) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [VERSION, iv.toString("base64"), tag.toString("base64"), ciphertext.toString("base64")].join(":");
+}
+
+/**
+ * Throws if the value was not produced by encryptSecret with the current key (tampered / wrong key)
+ */
+export function decryptSecret(stored: string) {
+  const [version, iv, tag, ciphertext] = stored.split(":");
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error("Unsupported encrypted secret format");
+  }
+  const decipher = crypto.createDecipheriv("aes-256-gcm", encryptionKey(), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()]).toString("utf8");
+}
@@ -0,0 +1,200 @@
+import crypto from "crypto";
+import { supabase } from "../supabase";
+import { signJwt } from "./jwt";
+
+const ACCESS_TOKEN_TTL_SECONDS = Number(process.env.ACCESS_TOKEN_TTL_SECONDS ?? 15 * 60); // 15 minutes
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS ?? 30);
+
+export type SessionMeta = { userAgent?: string | undefined; ip?: string | undefined };
+
+function hashSecret(secret: string) {
+  return crypto.createHash("sha256").update(secret).digest("hex");
+}
+
+function refreshExpiry() {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Split a refresh token "<sessionId>.<secret>" into its parts.
+ */
+function parseRefreshToken(refreshToken: string) {
+  const parts = refreshToken.split(".");
+  if (parts.length !== 2) return null;
+  const [sessionId, secret] = parts;
+  if (!sessionId || !secret) return null;
+  return { sessionId, secret };
+}
+
+/**
+ * Sign a short-lived access token bound to a session (sid claim).
+ */
+export function signAccessToken(user: { id: string; email: string }, sessionId: string) {
+  return signJwt(
+    { userId: user.id, email: user.email, sid: sessionId, typ: "access" },
+    { expiresIn: ACCESS_TOKEN_TTL_SECONDS }
+  );
+}
+
+/**
+ * Create a new session row for the user and return the tokens to hand to the client.
+ * The refresh token is returned in plaintext only here (and on rotation).
+ */
+export async function createSession(user: { id: string; email: string }, meta: SessionMeta = {}) {
+  const secret = crypto.randomBytes(32).toString("hex");
+
+  const { data, error } = await supabase
+    .from("user_sessions")
+    .insert({
+      user_id: user.id,
+      refresh_token_hash: hashSecret(secret),
+      user_agent: meta.userAgent ?? null,
+      ip: meta.ip ?? null,
+      expires_at: refreshExpiry(),
+    })
+    .select("id")
+    .single();
+
+  if (error || !data) {
+    throw error ?? new Error("Failed to create session");
+  }
+
+  const sessionId = (data as any).id as string;
+  return {
+    token: signAccessToken(user, sessionId),
+    refreshToken: `${sessionId}.${secret}`,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  };
+}
+
+/**
+ * Rotate a refresh token: the presented token is consumed and a new one is issued for the same session.
+ * Returns null if the token is unknown, expired or revoked, or the user is disabled or deleted.
+ *
+ * Reuse detection: a well-formed token for a live session whose secret does not match the current
+ * hash is an already-rotated token being replayed, so the whole session is revoked.
+ */
+export async function rotateRefreshToken(refreshToken: string, meta: SessionMeta = {}) {
+  const parsed = parseRefreshToken(refreshToken);
+  if (!parsed) return null;
+
+  const { data: session, error } = await supabase
+    .from("user_sessions")
+    .select("id, user_id, refresh_token_hash, expires_at, revoked_at")
+    .eq("id", parsed.sessionId)
+    .limit(1)
+    .single();
+
+  if (error || !session) return null;
+  if (session.revoked_at) return null;
+  if (new Date(session.expires_at).getTime() <= Date.now()) return null;
+
+  const a = Buffer.from(session.refresh_token_hash as string, "hex");
+  const b = Buffer.from(hashSecret(parsed.secret), "hex");
+  if (a.length !== b.length || !crypto.timingSafeEqual(a, b)) {
+    console.warn("refresh token reuse detected, revoking session", { sessionId: session.id });
+    await supabase.from("user_sessions").update({ revoked_at: new Date().toISOString() }).eq("id", session.id);
+    return null;
+  }
+
+  const { data: userRow, error: userError } = await supabase
+    .from("users")
+    .select("id, email, disabled_at, deleted_at")
+    .eq("id", session.user_id)
+    .single();
+
+  if (userError || !userRow || userRow.disabled_at || userRow.deleted_at) return null;
+
+  // Compare-and-swap on the old hash so two concurrent refreshes cannot both succeed
+  const newSecret = crypto.randomBytes(32).toString("hex");
+  const { data: updated, error: updateError } = await supabase
+    .from("user_sessions")
+    .update({
+      refresh_token_hash: hashSecret(newSecret),
+      last_used_at: new Date().toISOString(),
+      expires_at: refreshExpiry(),
+      user_agent: meta.userAgent ?? null,
+      ip: meta.ip ?? null,
+    })
+    .eq("id", session.id)
+    .eq("refresh_token_hash", session.refresh_token_hash)
+    .is("revoked_at", null)
+    .select("id");
+
+  if (updateError) throw updateError;
+  if (!updated || updated.length === 0) return null;
+
+  return {
+    user: { id: userRow.id as string, email: userRow.email as string },
+    token: signAccessToken(userRow as { id: string; email: string }, session.id),
+    refreshToken: `${session.id}.${newSecret}`,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  };
+}
+
+/**
+ * Return the session row if it is still usable (not revoked, not expired), otherwise null.
+ */
+export async function getActiveSession(sessionId: string) {
+  const { data, error } = await supabase
+    .from("user_sessions")
+    .select("id, user_id, expires_at, revoked_at")
+    .eq("id", sessionId)
+    .limit(1)
+    .single();
+
+  if (error || !data) return null;
+  if (data.revoked_at) return null;
+  if (new Date(data.expires_at).getTime() <= Date.now()) return null;
+  return data;
+}
+
+/**
+ * List active sessions for a user (sanitized: do NOT return refresh_token_hash)
+ */
+export async function listSessionsForUser(userId: string) {
+  const { data, error } = await supabase
+    .from("user_sessions")
+    .select("id, user_agent, ip, created_at, last_used_at, expires_at")
+    .eq("user_id", userId)
+    .is("revoked_at", null)
+    .gt("expires_at", new Date().toISOString())
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * Revoke one session owned by the user. Returns false if no such active session exists.
+ */
+export async function revokeSession(userId: string, sessionId: string) {
+  const { data, error } = await supabase
+    .from("user_sessions")
+    .update({ revoked_at: new Date().toISOString() })
+    .match({ id: sessionId, user_id: userId })
+    .is("revoked_at", null)
+    .select("id");
+
+  if (error) throw error;
+  return (data ?? []).length > 0;
+}
+
+/**
+ * Revoke every active session of the user, optionally keeping one (e.g. the caller's own).
+ */
+export async function revokeAllSessions(userId: string, exceptSessionId?: string) {
+  let query = supabase
+    .from("user_sessions")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .is("revoked_at", null);
+
+  if (exceptSessionId) {
+    query = query.neq("id", exceptSessionId);
+  }
+
+  const { error } = await query;
+  if (error) throw error;
+  return true;
+}
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ThrottlePolicy, makeMemoryThrottleStore } from "./throttle";
+
+vi.mock("../supabase", () => ({ supabase: {} }));
+
+const MINUTE = 60_000;
+
+const policy: ThrottlePolicy = {
+  windowMs: 15 * MINUTE,
+  freeAttempts: 3,
+  baseDelayMs: 1_000,
+  maxDelayMs: 30_000,
+  lockoutThreshold: 10,
+  lockoutMs: 15 * MINUTE,
+};
+
+describe("memory throttle store", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("lets only the free attempts of a parallel burst through", async () => {
+    const store = makeMemoryThrottleStore();
+    const waits = await Promise.all(Array.from({ length: 20 }, () => store.claim("login:email:a", policy)));
+
+    expect(waits.filter((waitMs) => waitMs === 0)).toHaveLength(policy.freeAttempts + 1);
+    expect((await store.get("login:email:a", policy.windowMs)).failures).toBe(policy.freeAttempts + 1);
+  });
+
+  it("gives a refunded attempt back", async () => {
+    const store = makeMemoryThrottleStore();
+    expect(await store.claim("ip:1.2.3.4", policy)).toBe(0);
+    await store.refund("ip:1.2.3.4");
+    expect((await store.get("ip:1.2.3.4", policy.windowMs)).failures).toBe(0);
+  });
+
+  it("prunes each entry by its own window when sweeping", async () => {
+    vi.useFakeTimers();
+    const store = makeMemoryThrottleStore();
+
+    await store.recordFailure("mail:a", 60 * MINUTE, 5, 60 * MINUTE);
+    vi.advanceTimersByTime(20 * MINUTE);
+    // Enough 15-minute keys to trigger the sweep
+    for (let i = 0; i <= 10_001; i++) {
+      await store.recordFailure(`login:ip:${i}`, 15 * MINUTE, 10, 15 * MINUTE);
+    }
+
+    expect((await store.get("mail:a", 60 * MINUTE)).failures).toBe(1);
+  });
+});
@@ -0,0 +1,344 @@
+import { Request, Response } from "express";
+import { supabase } from "../supabase";
+
+/**
+ * Failure throttling (brute-force protection).
+ *
+ * A throttle counts failures per key (e.g. "login:email:<email>", "login:ip:<ip>") in a sliding window:
+ * - after `freeAttempts` failures, each new attempt must wait baseDelayMs * 2^(n - freeAttempts - 1) (capped)
+ * - at `lockoutThreshold` failures the key is locked for `lockoutMs`
+ * A success resets the keys the caller chooses to reset (typically the account key, not the IP key).
+ *
+ * State lives in a pluggable store: in-memory (single instance) or Postgres (shared by every instance).
+ * THROTTLE_STORE = "memory" | "postgres" (default: memory)
+ */
+
+export type ThrottleState = {
+  failures: number;
+  lastFailureAt: number | null;
+  lockedUntil: number | null;
+};
+
+export interface ThrottleStore {
+  get(key: string, windowMs: number): Promise<ThrottleState>;
+  recordFailure(key: string, windowMs: number, lockoutThreshold: number, lockoutMs: number): Promise<ThrottleState>;
+  /**
+   * Atomic check + record: the wait (ms) if the key is throttled, otherwise 0 and the attempt is recorded
+   * as a failure (undone with refund once it succeeds)
+   */
+  claim(key: string, policy: ThrottlePolicy): Promise<number>;
+  /** Remove the most recent failure of the key (a claimed attempt that succeeded) */
+  refund(key: string): Promise<void>;
+  reset(key: string): Promise<void>;
+}
+
+export type ThrottlePolicy = {
+  windowMs: number;
+  freeAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  lockoutThreshold: number;
+  lockoutMs: number;
+};
+
+const MEMORY_SWEEP_THRESHOLD = 10_000;
+
+/**
+ * In-memory store: per process, lost on restart. Fine for a single instance / development.
+ */
+export function makeMemoryThrottleStore(): ThrottleStore {
+  // windowMs: of the policy that last wrote the entry, so the sweep prunes every entry by its own window
+  type Entry = { failures: number[]; lockedUntil: number | null; windowMs: number };
+  const entries = new Map<string, Entry>();
+
+  const prune = (key: string, now: number) => {
+    const entry = entries.get(key);
+    if (!entry) return null;
+    entry.failures = entry.failures.filter((t) => t > now - entry.windowMs);
+    if (entry.lockedUntil !== null && entry.lockedUntil <= now) entry.lockedUntil = null;
+    if (entry.failures.length === 0 && entry.lockedUntil === null) {
+      entries.delete(key);
+      return null;
+    }
+    return entry;
+  };
+
+  const toState = (entry: Entry | null): ThrottleState => ({
+    failures: entry?.failures.length ?? 0,
+    lastFailureAt: entry?.failures[entry.failures.length - 1] ?? null,
+    lockedUntil: entry?.lockedUntil ?? null,
+  });
+
+  const read = (key: string, windowMs: number, now: number) => {
+    const entry = entries.get(key);
+    if (entry) entry.windowMs = windowMs;
+    return prune(key, now);
+  };
+
+  const recordFailure = (key: string, windowMs: number, lockoutThreshold: number, lockoutMs: number) => {
+    const now = Date.now();
+    // Keep the map bounded: drop entries with nothing left in their window
+    if (entries.size > MEMORY_SWEEP_THRESHOLD) {
+      for (const k of entries.keys()) prune(k, now);
+    }
+
+    const entry = read(key, windowMs, now) ?? { failures: [], lockedUntil: null, windowMs };
+    entry.failures.push(now);
+    if (entry.failures.length >= lockoutThreshold) {
+      // Lockout is the penalty: the failure count starts over once it expires
+      entry.lockedUntil = now + lockoutMs;
+      entry.failures = [now];
+    }
+    entries.set(key, entry);
+    return toState(entry);
+  };
+
+  // No await between the check and the write: atomic within the process
+  return {
+    async get(key, windowMs) {
+      return toState(read(key, windowMs, Date.now()));
+    },
+    async recordFailure(key, windowMs, lockoutThreshold, lockoutMs) {
+      return recordFailure(key, windowMs, lockoutThreshold, lockoutMs);
+    },
+    async claim(key, policy) {
+      const now = Date.now();
+      const waitMs = retryAfterMs(toState(read(key, policy.windowMs, now)), policy, now);
+      if (waitMs > 0) return waitMs;
+      recordFailure(key, policy.windowMs, policy.lockoutThreshold, policy.lockoutMs);
+      return 0;
+    },
+    async refund(key) {
+      const entry = entries.get(key);
+      if (!entry) return;
+      entry.failures.pop();
+      if (entry.failures.length === 0 && entry.lockedUntil === null) entries.delete(key);
+    },
+    async reset(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+/**
+ * Postgres store: shared by every instance. Uses the auth_throttle_* functions
+ * (see sql/sql_2026-10-18-04-add-auth-throttle.sql) so each failure is recorded atomically.
+ */
+export function makePostgresThrottleStore(): ThrottleStore {
+  const toState = (row: any): ThrottleState => ({
+    failures: Number(row?.failures ?? 0),
+    lastFailureAt: row?.last_failure_at ? new Date(row.last_failure_at).getTime() : null,
+    lockedUntil: row?.locked_until ? new Date(row.locked_until).getTime() : null,
+  });
+
+  return {
+    async get(key, windowMs) {
+      const { data, error } = await supabase.rpc("auth_throttle_get", { p_key: key, p_window_ms: windowMs });
+      if (error) throw error;
+      return toState(Array.isArray(data) ? data[0] : data);
+    },
+    async recordFailure(key, windowMs, lockoutThreshold, lockoutMs) {
+      const { data, error } = await supabase.rpc("auth_throttle_fail", {
+        p_key: key,
+        p_window_ms: windowMs,
+        p_threshold: lockoutThreshold,
+        p_lockout_ms: lockoutMs,
+      });
+      if (error) throw error;
+      return toState(Array.isArray(data) ? data[0] : data);
+    },
+    async claim(key, policy) {
+      const { data, error } = await supabase.rpc("auth_throttle_claim", {
+        p_key: key,
+        p_window_ms: policy.windowMs,
+        p_free_attempts: policy.freeAttempts,
+        p_base_delay_ms: policy.baseDelayMs,
+        p_max_delay_ms: policy.maxDelayMs,
+        p_threshold: policy.lockoutThreshold,
+        p_lockout_ms: policy.lockoutMs,
+      });
+      if (error) throw error;
+      return Number(data ?? 0);
+    },
+    async refund(key) {
+      const { error } = await supabase.rpc("auth_throttle_refund", { p_key: key });
+      if (error) throw error;
+    },
+    async reset(key) {
+      const { error } = await supabase.rpc("auth_throttle_reset", { p_key: key });
+      if (error) throw error;
+    },
+  };
+}
+
+let store: ThrottleStore | null = null;
+
+export function getThrottleStore(): ThrottleStore {
+  if (store) return store;
+
+  const kind = process.env.THROTTLE_STORE ?? "memory";
+  switch (kind) {
+    case "memory":
+      store = makeMemoryThrottleStore();
+      break;
+    case "postgres":
+      store = makePostgresThrottleStore();
+      break;
+    default:
+      throw new Error(`Unknown THROTTLE_STORE "${kind}" (expected "memory" or "postgres")`);
+  }
+  return store;
+}
+
+/**
+ * Replace the store used by every throttle (custom backends, tests).
+ */
+export function setThrottleStore(custom: ThrottleStore) {
+  store = custom;
+}
+
+/**
+ * Milliseconds the caller must still wait for this key, 0 if an attempt is allowed now.
+ */
+export function retryAfterMs(state: ThrottleState, policy: ThrottlePolicy, now: number = Date.now()) {
+  if (state.lockedUntil !== null && state.lockedUntil > now) {
+    return state.lockedUntil - now;
+  }
+  if (state.failures > policy.freeAttempts && state.lastFailureAt !== null) {
+    const exponent = state.failures - policy.freeAttempts - 1;
+    const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** exponent);
+    return Math.max(0, state.lastFailureAt + delay - now);
+  }
+  return 0;
+}
+
+/**
+ * Bind a policy to the configured store.
+ */
+export function createThrottle(policy: ThrottlePolicy) {
+  return {
+    /**
+     * Returns the longest wait (ms) across keys; 0 means the attempt may proceed.
+     */
+    async check(keys: string[]) {
+      const states = await Promise.all(keys.map((key) => getThrottleStore().get(key, policy.windowMs)));
+      return Math.max(0, ...states.map((state) => retryAfterMs(state, policy)));
+    },
+    async fail(keys: string[]) {
+      await Promise.all(
+        keys.map((key) =>
+          getThrottleStore().recordFailure(key, policy.windowMs, policy.lockoutThreshold, policy.lockoutMs)
+        )
+      );
+    },
+    /**
+     * Check and record one attempt in one step (see ThrottleStore.claim): 0 = go ahead
+     */
+    async claim(key: string) {
+      return getThrottleStore().claim(key, policy);
+    },
+    async refund(key: string) {
+      await getThrottleStore().refund(key);
+    },
+    async reset(keys: string[]) {
+      await Promise.all(keys.map((key) => getThrottleStore().reset(key)));
+    },
+  };
+}
+
+/**
+ * Client address used as throttle key (honours Express "trust proxy").
+ */
+export function clientIp(req: Request) {
+  return req.ip ?? req.socket.remoteAddress ?? "unknown";
+}
+
+/**
+ * 429 with Retry-After, same shape as the other limiters
+ */
+export function sendTooManyAttempts(res: Response, waitMs: number) {
+  const retryAfter = Math.max(1, Math.ceil(waitMs / 1000));
+  res.setHeader("Retry-After", String(retryAfter));
+  return res.status(429).json({ error: `Too many attempts. Try again in ${retryAfter} seconds` });
+}
+
+const MINUTE = 60_000;
+
+/**
+ * Password attempts per account (email / user id)
+ */
+export const accountThrottle = createThrottle({
+  windowMs: 15 * MINUTE,
+  freeAttempts: 3,
+  baseDelayMs: 1_000,
+  maxDelayMs: 30_000,
+  lockoutThreshold: Number(process.env.LOGIN_MAX_FAILURES ?? 10),
+  lockoutMs: Number(process.env.LOGIN_LOCKOUT_MINUTES ?? 15) * MINUTE,
+});
+
+/**
+ * Credential failures per client IP (password, 2FA code, API key): more headroom for shared addresses
+ */
+export const ipThrottle = createThrottle({
+  windowMs: 15 * MINUTE,
+  freeAttempts: 10,
+  baseDelayMs: 1_000,
+  maxDelayMs: 30_000,
+  lockoutThreshold: Number(process.env.IP_MAX_FAILURES ?? 50),
+  lockoutMs: Number(process.env.LOGIN_LOCKOUT_MINUTES ?? 15) * MINUTE,
+});
+
+/**
+ * Outgoing mails triggered by a user (verification resend): every send counts as a "failure"
+ */
+export const mailThrottle = createThrottle({
+  windowMs: 60 * MINUTE,
+  freeAttempts: 1,
+  baseDelayMs: MINUTE,
+  maxDelayMs: 10 * MINUTE,
+  lockoutThreshold: 5,
+  lockoutMs: 60 * MINUTE,
+});
+
+/**
+ * Start a credential check (password, 2FA code): claims an attempt on the client IP and the account key
+ * (when known), each with an atomic check + record, so a burst of parallel requests cannot all pass the
+ * check before their failures are recorded. Returns the wait (ms) when throttled, 0 to go ahead; the attempt
+ * then counts as a failure until credentialSucceeded is called.
+ */
+export async function claimCredentialAttempt(accountKey: string | null, ip: string) {
+  const ipKey = `ip:${ip}`;
+  const ipWait = await ipThrottle.claim(ipKey);
+  if (ipWait > 0) return ipWait;
+  if (!accountKey) return 0;
+
+  const accountWait = await accountThrottle.claim(accountKey);
+  if (accountWait > 0) {
+    await ipThrottle.refund(ipKey);
+    return accountWait;
+  }
+  return 0;
+}
+
+/**
+ * The claimed credential check succeeded: forget the account's failures, give the IP its attempt back
+ */
+export async function credentialSucceeded(accountKey: string | null, ip: string) {
+  await Promise.all([accountKey ? accountThrottle.reset([accountKey]) : undefined, ipThrottle.refund(`ip:${ip}`)]);
+}
+
+/**
+ * Check-then-record variant (API key authentication, where a success must not cost a write):
+ * consults both throttles, the account key (when known) and the client IP.
+ */
+export async function credentialWaitMs(accountKey: string | null, ip: string) {
+  const [accountWait, ipWait] = await Promise.all([
+    accountKey ? accountThrottle.check([accountKey]) : 0,
+    ipThrottle.check([`ip:${ip}`]),
+  ]);
+  return Math.max(accountWait, ipWait);
+}
+
+export async function recordCredentialFailure(accountKey: string | null, ip: string) {
+  await Promise.all([accountKey ? accountThrottle.fail([accountKey]) : undefined, ipThrottle.fail([`ip:${ip}`])]);
+}
\ No newline at end of file
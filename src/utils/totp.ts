@@ -0,0 +1,98 @@
+import crypto from "crypto";
+
+/**
+ * Minimal RFC 6238 TOTP (HMAC-SHA1, 6 digits, 30s period) — the parameters every authenticator app supports.
+ */
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const PERIOD_SECONDS = 30;
+const DIGITS = 6;
+
+export function base32Encode(buf: Buffer) {
+  let bits = 0;
+  let value = 0;
+  let out = "";
+  for (const byte of buf) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+}
+
+export function base32Decode(input: string) {
+  const clean = input.toUpperCase().replace(/=+$/, "").replace(/\s+/g, "");
+  let bits = 0;
+  let value = 0;
+  const out: number[] = [];
+  for (const char of clean) {
+    const idx = BASE32_ALPHABET.indexOf(char);
+    if (idx === -1) throw new Error("Invalid base32 character");
+    value = (value << 5) | idx;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(out);
+}
+
+/**
+ * New random secret (160 bits, base32) to be stored server-side and shown once to the user.
+ */
+export function generateTotpSecret() {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * Compute the code for a given time step (RFC 4226 dynamic truncation).
+ */
+export function totpCode(secret: string, step: number) {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1]! & 0xf;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+  return String(binary).padStart(DIGITS, "0");
+}
+
+export function currentStep(now: number = Date.now()) {
+  return Math.floor(now / 1000 / PERIOD_SECONDS);
+}
+
+/**
+ * Verify a code allowing +/- `window` steps of clock drift.
+ * Returns the matched time step (so callers can refuse replays of the same step), or null.
+ */
+export function verifyTotp(secret: string, code: string, window = 1, now: number = Date.now()) {
+  const normalized = code.replace(/\s+/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const step = currentStep(now);
+  for (let i = -window; i <= window; i++) {
+    const expected = Buffer.from(totpCode(secret, step + i));
+    if (crypto.timingSafeEqual(expected, Buffer.from(normalized))) {
+      return step + i;
+    }
+  }
+  return null;
+}
+
+/**
+ * otpauth:// URI understood by authenticator apps (usually rendered as a QR code by the client).
+ */
+export function otpauthUri(secret: string, accountName: string, issuer: string) {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
\ No newline at end of file
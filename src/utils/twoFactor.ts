@@ -0,0 +1,111 @@
+import crypto from "crypto";
+import { supabase } from "../supabase";
+import { verifyTotp } from "./totp";
+import { invalidateUser } from "./principalCache";
+
+const RECOVERY_CODE_COUNT = 10;
+
+function hashRecoveryCode(code: string) {
+  const normalized = code.replace(/[\s-]+/g, "").toLowerCase();
+  return crypto.createHash("sha256").update(normalized).digest("hex");
+}
+
+/**
+ * Replace every recovery code of the user with a fresh set.
+ * Returns the plaintext codes (shown once); only their hashes are stored.
+ */
+export async function regenerateRecoveryCodes(userId: string) {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+
+  const { error: deleteError } = await supabase.from("user_recovery_codes").delete().eq("user_id", userId);
+  if (deleteError) throw deleteError;
+
+  const { error: insertError } = await supabase
+    .from("user_recovery_codes")
+    .insert(codes.map((code) => ({ user_id: userId, code_hash: hashRecoveryCode(code) })));
+  if (insertError) throw insertError;
+
+  return codes;
+}
+
+export async function countRemainingRecoveryCodes(userId: string) {
+  const { count, error } = await supabase
+    .from("user_recovery_codes")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .is("used_at", null);
+
+  if (error) throw error;
+  return count ?? 0;
+}
+
+/**
+ * Mark a recovery code as used. Returns true only for an unused code of this user.
+ */
+async function consumeRecoveryCode(userId: string, code: string) {
+  const { data, error } = await supabase
+    .from("user_recovery_codes")
+    .update({ used_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .eq("code_hash", hashRecoveryCode(code))
+    .is("used_at", null)
+    .select("id");
+
+  if (error) throw error;
+  return (data ?? []).length > 0;
+}
+
+/**
+ * Check a TOTP code against the secret and refuse a step that was already used (replay).
+ * On success the step is recorded in users.totp_last_step with a conditional update, so two concurrent
+ * requests presenting the same code cannot both succeed.
+ */
+export async function checkTotpCode(
+  user: { id: string; totp_secret: string | null; totp_last_step?: number | null },
+  code: string
+) {
+  if (!user.totp_secret) return false;
+  const step = verifyTotp(user.totp_secret, code);
+  if (step === null) return false;
+  if (user.totp_last_step != null && step <= Number(user.totp_last_step)) return false;
+
+  const { data, error } = await supabase
+    .from("users")
+    .update({ totp_last_step: step })
+    .eq("id", user.id)
+    .or(`totp_last_step.is.null,totp_last_step.lt.${step}`)
+    .select("id");
+  if (error) throw error;
+  return (data ?? []).length > 0;
+}
+
+/**
+ * Verify the second factor of a user with 2FA enabled: either a TOTP code or a recovery code.
+ */
+export async function verifySecondFactor(
+  user: { id: string; totp_secret: string | null; totp_last_step?: number | null },
+  factor: { code?: string | undefined; recoveryCode?: string | undefined }
+) {
+  if (factor.code) return checkTotpCode(user, factor.code);
+  if (factor.recoveryCode) return consumeRecoveryCode(user.id, factor.recoveryCode);
+  return false;
+}
+
+/**
+ * Turn 2FA off: clear the secret and drop every recovery code.
+ */
+export async function disableTwoFactor(userId: string) {
+  const { error } = await supabase
+    .from("users")
+    .update({ totp_secret: null, totp_enabled_at: null, totp_last_step: null })
+    .eq("id", userId);
+  if (error) throw error;
+  invalidateUser(userId);
+
+  const { error: deleteError } = await supabase.from("user_recovery_codes").delete().eq("user_id", userId);
+  if (deleteError) throw deleteError;
+  return true;
+}
\ No newline at end of file
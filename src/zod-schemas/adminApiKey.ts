@@ -0,0 +1,26 @@
+import { z } from "zod";
+
+export const listAllApiKeysQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(50),
+  // keys older than N days that have not been used for N days (never used included)
+  unused_days: z.coerce.number().int().min(1).optional(),
+  revoked: z.enum(["true", "false"]).optional(),
+  owner_id: z.string().uuid("invalid owner id").optional(),
+});
+
+export const bulkRevokeApiKeysSchema = z.object({
+  ids: z.array(z.string().uuid("invalid key id")).min(1, "ids must not be empty").max(500),
+  reason: z.string().trim().min(3, "reason is required").max(500),
+});
+
+export const apiKeyAuditQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(50),
+  api_key_id: z.string().uuid("invalid key id").optional(),
+  actor_id: z.string().uuid("invalid actor id").optional(),
+});
+
+export type ListAllApiKeysQuery = z.infer<typeof listAllApiKeysQuerySchema>;
+export type BulkRevokeApiKeysBody = z.infer<typeof bulkRevokeApiKeysSchema>;
+export type ApiKeyAuditQuery = z.infer<typeof apiKeyAuditQuerySchema>;
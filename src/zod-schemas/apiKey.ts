@@ -1,7 +1,75 @@
 import { z } from "zod";
+import { API_KEY_SCOPE_NAMES } from "../utils/apiKeyScopes";
+import { API_KEY_MAX_ROTATION_GRACE_SECONDS } from "../utils/apiKeyLifecycle";
+import { normalizeCidr } from "../utils/ipAllowlist";
 
-export const createApiKeySchema = z.object({
-  name: z.string().min(1, "name is required"),
+// IPs / CIDR ranges (IPv4 or IPv6), stored normalized as "<address>/<prefix>"
+const allowedIpsSchema = z
+  .array(
+    z.string().transform((value, ctx) => {
+      const normalized = normalizeCidr(value);
+      if (!normalized) {
+        ctx.addIssue({ code: "custom", message: `Invalid IP address or CIDR range: ${value}` });
+        return z.NEVER;
+      }
+      return normalized;
+    })
+  )
+  .max(100, "At most 100 allowed_ips entries");
+
+export const createApiKeySchema = z
+  .object({
+    name: z.string().min(1, "name is required"),
+    // Omitted => the key has the owner's full role
+    scopes: z.array(z.enum(API_KEY_SCOPE_NAMES)).min(1, "scopes must not be empty").optional(),
+    // Omitted => the key never expires
+    expires_at: z.iso.datetime({ offset: true }).optional(),
+    // Omitted => the owner's role limits / server defaults; can only be lower than those
+    rate_limit_per_minute: z.number().int().positive().optional(),
+    daily_quota: z.number().int().positive().optional(),
+    // Omitted => usable from any address
+    allowed_ips: allowedIpsSchema.optional(),
+    // true => unsigned requests are rejected (see src/client/signRequest.ts)
+    require_signature: z.boolean().optional(),
+  })
+  .refine((data) => !data.expires_at || new Date(data.expires_at).getTime() > Date.now(), {
+    message: "expires_at must be in the future",
+    path: ["expires_at"],
+  });
+
+export type CreateApiKeyBody = z.infer<typeof createApiKeySchema>;
+
+export const updateApiKeySchema = z
+  .object({
+    // null or [] => no restriction
+    allowed_ips: allowedIpsSchema.nullable().optional(),
+    require_signature: z.boolean().optional(),
+  })
+  .refine((data) => data.allowed_ips !== undefined || data.require_signature !== undefined, {
+    message: "Provide allowed_ips and/or require_signature",
+    path: ["allowed_ips"],
+  });
+
+export type UpdateApiKeyBody = z.infer<typeof updateApiKeySchema>;
+
+export const rotateApiKeySchema = z.object({
+  // Omitted => API_KEY_ROTATION_GRACE_SECONDS; 0 invalidates the previous secret immediately
+  gracePeriodSeconds: z.coerce.number().int().min(0).max(API_KEY_MAX_ROTATION_GRACE_SECONDS).optional(),
 });
 
-export type CreateApiKeyBody = z.infer<typeof createApiKeySchema>;
\ No newline at end of file
+export type RotateApiKeyBody = z.infer<typeof rotateApiKeySchema>;
+
+export const apiKeyUsageQuerySchema = z
+  .object({
+    // Defaults: to = now, from = 24h before (bucket=hour) or 30 days before (bucket=day)
+    from: z.iso.datetime({ offset: true }).optional(),
+    to: z.iso.datetime({ offset: true }).optional(),
+    bucket: z.enum(["hour", "day"]).default("hour"),
+    recent: z.coerce.number().int().min(0).max(100).default(20),
+  })
+  .refine((data) => !data.from || !data.to || new Date(data.from) < new Date(data.to), {
+    message: "from must be before to",
+    path: ["from"],
+  });
+
+export type ApiKeyUsageQuery = z.infer<typeof apiKeyUsageQuerySchema>;
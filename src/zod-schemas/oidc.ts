@@ -0,0 +1,14 @@
+import { z } from "zod";
+
+/**
+ * Query string of the redirect back from the provider: either code + state or error (+ state)
+ */
+export const oidcCallbackSchema = z.object({
+    provider: z.string().min(1),
+    state: z.string().min(1, "state is required"),
+    code: z.string().min(1).optional(),
+    error: z.string().optional(),
+    error_description: z.string().optional(),
+});
+
+export type OidcCallbackQuery = z.infer<typeof oidcCallbackSchema>;
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { z } from "zod";
+
+const shopDomain = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[a-z0-9][a-z0-9-]*\.myshopify\.com$/, "shop_domain must be a <shop>.myshopify.com domain");
+
+export const createOrganizationSchema = z.object({
+  name: z.string().trim().min(1, "name is required").max(100),
+  shop_domain: shopDomain,
+  shopify_access_token: z.string().trim().min(1, "shopify_access_token is required"),
+  // only when the shop's webhooks are signed by another Shopify app than SHOPIFY_WEBHOOK_SECRET's
+  webhook_secret: z.string().trim().min(1).optional(),
+});
+
+export const updateOrganizationSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().trim().min(1, "name cannot be empty").max(100).optional(),
+    shop_domain: shopDomain.optional(),
+    shopify_access_token: z.string().trim().min(1).optional(),
+    webhook_secret: z.string().trim().min(1).nullable().optional(),
+  })
+  .refine(
+    (data) =>
+      data.name !== undefined ||
+      data.shop_domain !== undefined ||
+      data.shopify_access_token !== undefined ||
+      data.webhook_secret !== undefined,
+    { message: "Provide name, shop_domain, shopify_access_token and/or webhook_secret", path: ["name"] }
+  );
+
+export const setOrganizationMemberSchema = z.object({
+  id: z.string().min(1),
+  userId: z.string().min(1),
+  role: z.string().min(1, "role is required"),
+});
+
+export type CreateOrganizationBody = z.infer<typeof createOrganizationSchema>;
+export type UpdateOrganizationBody = z.infer<typeof updateOrganizationSchema>;
+export type SetOrganizationMemberBody = z.infer<typeof setOrganizationMemberSchema>;
@@ -0,0 +1,34 @@
+import { z } from "zod";
+import { PERMISSION_KEYS } from "../middleware/permissions";
+
+const roleSettingsShape = {
+  description: z.string().trim().max(500).nullable().optional(),
+  requires_2fa: z.boolean().optional(),
+  // permissions denied until the user's email is verified ([] = none; the column is NOT NULL)
+  restricted_until_verified: z.array(z.enum(PERMISSION_KEYS)).optional(),
+  api_requests_per_minute: z.number().int().positive().nullable().optional(),
+  api_daily_quota: z.number().int().positive().nullable().optional(),
+};
+
+export const createRoleSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .regex(/^[A-Z][A-Z0-9_]{1,49}$/, "name must be UPPER_SNAKE_CASE (2-50 characters)"),
+  permissions: z.array(z.enum(PERMISSION_KEYS)).default([]),
+  ...roleSettingsShape,
+});
+
+export const updateRoleSchema = z.object({
+  name: z.string().min(1),
+  ...roleSettingsShape,
+});
+
+export const setRolePermissionsSchema = z.object({
+  name: z.string().min(1),
+  permissions: z.array(z.enum(PERMISSION_KEYS)),
+});
+
+export type CreateRoleBody = z.infer<typeof createRoleSchema>;
+export type UpdateRoleBody = z.infer<typeof updateRoleSchema>;
+export type SetRolePermissionsBody = z.infer<typeof setRolePermissionsSchema>;
@@ -0,0 +1,21 @@
+import { z } from "zod";
+
+export const createServiceAccountSchema = z.object({
+  name: z.string().trim().min(1, "name is required").max(100),
+  role: z.string().min(1, "role is required"),
+  description: z.string().trim().max(500).optional(),
+});
+
+export const updateServiceAccountSchema = z
+  .object({
+    name: z.string().trim().min(1, "name cannot be empty").max(100).optional(),
+    role: z.string().min(1).optional(),
+    description: z.string().trim().max(500).nullable().optional(),
+  })
+  .refine((data) => data.name !== undefined || data.role !== undefined || data.description !== undefined, {
+    message: "Provide name, role and/or description",
+    path: ["name"],
+  });
+
+export type CreateServiceAccountBody = z.infer<typeof createServiceAccountSchema>;
+export type UpdateServiceAccountBody = z.infer<typeof updateServiceAccountSchema>;
@@ -0,0 +1,35 @@
+import { z } from "zod";
+
+export const totpCodeSchema = z.object({
+    code: z.string().regex(/^\d{6}$/, "code must be 6 digits"),
+});
+
+/**
+ * Second factor: either a TOTP code or one of the recovery codes
+ */
+const secondFactorShape = {
+    code: z.string().regex(/^\d{6}$/, "code must be 6 digits").optional(),
+    recoveryCode: z.string().min(1, "recovery code is required").optional(),
+};
+
+const hasSecondFactor = (data: { code?: string | undefined; recoveryCode?: string | undefined }) =>
+    Boolean(data.code || data.recoveryCode);
+
+export const loginTwoFactorSchema = z
+    .object({
+        challengeToken: z.string().min(1, "challenge token is required"),
+        cookie: z.boolean().optional(),
+        ...secondFactorShape,
+    })
+    .refine(hasSecondFactor, { message: "Provide either code or recoveryCode", path: ["code"] });
+
+export const disableTwoFactorSchema = z
+    .object({
+        password: z.string().min(1, "password is required"),
+        ...secondFactorShape,
+    })
+    .refine(hasSecondFactor, { message: "Provide either code or recoveryCode", path: ["code"] });
+
+export type TotpCodeBody = z.infer<typeof totpCodeSchema>;
+export type LoginTwoFactorBody = z.infer<typeof loginTwoFactorSchema>;
+export type DisableTwoFactorBody = z.infer<typeof disableTwoFactorSchema>;
\ No newline at end of file
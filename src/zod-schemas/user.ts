@@ -9,13 +9,81 @@ export const signupSchema = z.object({
 export const loginSchema = z.object({
     email: z.string().email("invalid email"),
     password: z.string().min(1, "password is required"),
+    // browser clients: session in HttpOnly cookies instead of tokens in the body
+    cookie: z.boolean().optional(),
 });
 
 export const changePasswordSchema = z.object({
     oldPassword: z.string().min(1, "old password is required"),
     newPassword: z.string().min(8, "new password must be at least 8 characters"),
+    // also revoke every API key of the user (suspected compromise)
+    revokeApiKeys: z.boolean().optional(),
+});
+
+export const refreshTokenSchema = z.object({
+    // optional for cookie sessions (read from the refresh_token cookie)
+    refreshToken: z.string().min(1, "refresh token is required").optional(),
+});
+
+export const forgotPasswordSchema = z.object({
+    email: z.string().email("invalid email"),
+});
+
+export const resetPasswordSchema = z.object({
+    token: z.string().min(1, "token is required"),
+    newPassword: z.string().min(8, "new password must be at least 8 characters"),
+});
+
+export const verifyEmailSchema = z.object({
+    token: z.string().min(1, "token is required"),
+});
+
+export const updateMyUserSchema = z
+    .object({
+        name: z.string().trim().min(1, "name cannot be empty").optional(),
+        email: z.string().email("invalid email").optional(),
+        // API keys created before the last password change stop working; null = server default
+        invalidate_api_keys_on_password_change: z.boolean().nullable().optional(),
+    })
+    .refine(
+        (data) =>
+            data.name !== undefined ||
+            data.email !== undefined ||
+            data.invalidate_api_keys_on_password_change !== undefined,
+        {
+            message: "Provide name, email and/or invalidate_api_keys_on_password_change",
+            path: ["name"],
+        }
+    );
+
+// password omitted: the current session must be a recent sign-in (accounts created through OIDC have no usable password)
+export const deleteMyUserSchema = z.object({
+    password: z.string().min(1, "password is required").optional(),
+});
+
+export const listUsersQuerySchema = z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    pageSize: z.coerce.number().int().min(1).max(100).default(20),
+    search: z.string().trim().min(1).max(100).optional(), // name or email contains
+    role: z.string().min(1).optional(),
+    email: z.string().min(1).optional(), // exact match
+    created_after: z.iso.datetime({ offset: true }).optional(),
+    created_before: z.iso.datetime({ offset: true }).optional(),
+    disabled: z.enum(["true", "false"]).optional(),
+});
+
+export const updateUserRoleSchema = z.object({
+    role: z.string().min(1, "role is required"),
 });
 
 export type SignupBody = z.infer<typeof signupSchema>;
 export type LoginBody = z.infer<typeof loginSchema>;
-export type ChangePasswordBody = z.infer<typeof changePasswordSchema>;
\ No newline at end of file
+export type ChangePasswordBody = z.infer<typeof changePasswordSchema>;
+export type RefreshTokenBody = z.infer<typeof refreshTokenSchema>;
+export type ForgotPasswordBody = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordBody = z.infer<typeof resetPasswordSchema>;
+export type VerifyEmailBody = z.infer<typeof verifyEmailSchema>;
+export type UpdateMyUserBody = z.infer<typeof updateMyUserSchema>;
+export type DeleteMyUserBody = z.infer<typeof deleteMyUserSchema>;
+export type ListUsersQuery = z.infer<typeof listUsersQuerySchema>;
+export type UpdateUserRoleBody = z.infer<typeof updateUserRoleSchema>;
\ No newline at end of file